@@ -2,13 +2,13 @@ import { defineConfig } from 'rolldown';
 import { dts } from 'rolldown-plugin-dts';
 
 export default defineConfig({
-  input: 'src/index.ts',
+  input: ['src/index.ts', 'src/testing.ts', 'src/sqlite.ts'],
   output: {
     dir: 'dist',
     format: 'esm',
     entryFileNames: '[name].js',
   },
-  external: ['elysia'],
+  external: [/^elysia(\/|$)/, 'bun:sqlite'],
   platform: 'node',
   plugins: [dts()],
 });
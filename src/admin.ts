@@ -0,0 +1,290 @@
+import { type Context, Elysia, t } from 'elysia';
+
+import type { BackgroundManager } from './index';
+
+/**
+ * Action requested on an admin route, passed to `authorize`.
+ */
+export type AdminAction =
+  | 'read'
+  | 'cancel'
+  | 'retry'
+  | 'delete'
+  | 'pause'
+  | 'resume';
+
+/**
+ * Configuration options for the admin routes.
+ */
+export type AdminOptions = {
+  /**
+   * Decides whether a request may perform an action. Called before every admin
+   * route; requests it rejects receive `403 Forbidden`.
+   * Return `true` to allow every request, for example in development.
+   * @param event - The event object containing the request context and the requested action
+   * @returns Whether the request is allowed
+   */
+  authorize: (event: {
+    context: Context;
+    action: AdminAction;
+  }) => boolean | Promise<boolean>;
+  /**
+   * Path the routes are mounted under.
+   * @default '/_background'
+   */
+  prefix?: string;
+};
+
+const ErrorResponse = t.Object({ error: t.String() });
+
+const TaskInfoSchema = t.Object({
+  id: t.String(),
+  name: t.String(),
+  metadata: t.Record(t.String(), t.Unknown()),
+  status: t.Union([
+    t.Literal('pending'),
+    t.Literal('running'),
+    t.Literal('succeeded'),
+    t.Literal('failed'),
+    t.Literal('cancelled'),
+    t.Literal('skipped'),
+  ]),
+  attempts: t.Number(),
+  createdAt: t.Number(),
+  startedAt: t.Optional(t.Number()),
+  finishedAt: t.Optional(t.Number()),
+  dependsOn: t.Array(t.String()),
+  runAt: t.Optional(t.Number()),
+  key: t.Optional(t.String()),
+});
+
+const DeadLetterSchema = t.Object({
+  id: t.String(),
+  name: t.String(),
+  args: t.Array(t.Unknown()),
+  metadata: t.Record(t.String(), t.Unknown()),
+  error: t.Object({ name: t.String(), message: t.String() }),
+  stack: t.Optional(t.String()),
+  attempts: t.Number(),
+  request: t.Optional(
+    t.Object({
+      id: t.String(),
+      method: t.String(),
+      path: t.String(),
+      route: t.String(),
+      headers: t.Record(t.String(), t.String()),
+      store: t.Record(t.String(), t.Unknown()),
+      derived: t.Record(t.String(), t.Unknown()),
+    }),
+  ),
+  createdAt: t.Number(),
+  failedAt: t.Number(),
+});
+
+const StatsSchema = t.Object({
+  running: t.Number(),
+  queued: t.Number(),
+  throttled: t.Number(),
+  rejected: t.Number(),
+  dropped: t.Number(),
+  inline: t.Number(),
+  rateLimited: t.Number(),
+  inFlight: t.Number(),
+  scheduled: t.Number(),
+  paused: t.Boolean(),
+  shuttingDown: t.Boolean(),
+  jobs: t.Array(
+    t.Object({
+      name: t.String(),
+      running: t.Boolean(),
+      nextRunAt: t.Optional(t.Number()),
+    }),
+  ),
+});
+
+const IdParams = t.Object({ id: t.String() });
+
+/**
+ * Creates an Elysia plugin mounting admin routes to inspect and control the
+ * background tasks of a `background()` plugin:
+ *
+ * - `GET /tasks`, `GET /tasks/:id` and `POST /tasks/:id/cancel` for unfinished tasks
+ * - `GET /dead-letter`, `GET /dead-letter/:id`, `POST /dead-letter/:id/retry`
+ *   and `DELETE /dead-letter/:id` for tasks that failed permanently
+ * - `GET /stats`, `POST /pause` and `POST /resume` for the scheduler
+ *
+ * Every route is guarded by `authorize`.
+ *
+ * @param manager - The manager of the plugin, available as `background` on its decorator
+ * @param options - Configuration options for authorization and the route prefix
+ * @returns Elysia plugin with the admin routes
+ *
+ * @example
+ * ```typescript
+ * const tasks = background({ deadLetter: new MemoryDeadLetterStore() });
+ *
+ * const app = new Elysia()
+ *   .use(tasks)
+ *   .use(
+ *     backgroundAdmin(tasks.decorator.background, {
+ *       authorize: ({ context }) =>
+ *         context.headers.authorization === `Bearer ${process.env.ADMIN_TOKEN}`,
+ *     }),
+ *   );
+ * ```
+ */
+export function backgroundAdmin(
+  // biome-ignore lint/suspicious/noExplicitAny: Accept managers with any task definitions
+  manager: BackgroundManager<any>,
+  options: AdminOptions,
+) {
+  const { authorize, prefix = '/_background' } = options;
+
+  const stats = () => ({
+    ...manager.metrics,
+    inFlight: manager.inFlight,
+    scheduled: manager.scheduled,
+    paused: manager.isPaused,
+    shuttingDown: manager.isShuttingDown,
+    jobs: manager.jobs.list(),
+  });
+
+  return new Elysia({ name: 'elysia-background-admin', prefix })
+    .macro({
+      action: (action: AdminAction) => ({
+        async beforeHandle(context) {
+          if (!(await authorize({ context, action }))) {
+            return context.status(403, { error: 'Forbidden' });
+          }
+        },
+      }),
+    })
+    .get('/tasks', () => manager.list(), {
+      action: 'read',
+      response: { 200: t.Array(TaskInfoSchema), 403: ErrorResponse },
+    })
+    .get(
+      '/tasks/:id',
+      ({ params, status }) =>
+        manager.find(params.id)?.toJSON() ??
+        status(404, { error: 'Task not found' }),
+      {
+        params: IdParams,
+        action: 'read',
+        response: {
+          200: TaskInfoSchema,
+          403: ErrorResponse,
+          404: ErrorResponse,
+        },
+      },
+    )
+    .post(
+      '/tasks/:id/cancel',
+      ({ params, status }) => {
+        const task = manager.find(params.id);
+        if (!task) {
+          return status(404, { error: 'Task not found' });
+        }
+        task.cancel('admin');
+        return task.toJSON();
+      },
+      {
+        params: IdParams,
+        action: 'cancel',
+        response: {
+          200: TaskInfoSchema,
+          403: ErrorResponse,
+          404: ErrorResponse,
+        },
+      },
+    )
+    .get(
+      '/dead-letter',
+      async () => (await manager.deadLetters?.list()) ?? [],
+      {
+        action: 'read',
+        response: { 200: t.Array(DeadLetterSchema), 403: ErrorResponse },
+      },
+    )
+    .get(
+      '/dead-letter/:id',
+      async ({ params, status }) =>
+        (await manager.deadLetters?.get(params.id)) ??
+        status(404, { error: 'Dead letter not found' }),
+      {
+        params: IdParams,
+        action: 'read',
+        response: {
+          200: DeadLetterSchema,
+          403: ErrorResponse,
+          404: ErrorResponse,
+        },
+      },
+    )
+    .post(
+      '/dead-letter/:id/retry',
+      async ({ params, status }) => {
+        if (!(await manager.deadLetters?.get(params.id))) {
+          return status(404, { error: 'Dead letter not found' });
+        }
+        try {
+          const task = await manager.requeue(params.id);
+          return { id: task.id };
+        } catch (error) {
+          return status(409, { error: (error as Error).message });
+        }
+      },
+      {
+        params: IdParams,
+        action: 'retry',
+        response: {
+          200: t.Object({ id: t.String() }),
+          403: ErrorResponse,
+          404: ErrorResponse,
+          409: ErrorResponse,
+        },
+      },
+    )
+    .delete(
+      '/dead-letter/:id',
+      async ({ params, status }) =>
+        (await manager.deadLetters?.delete(params.id))
+          ? { deleted: true }
+          : status(404, { error: 'Dead letter not found' }),
+      {
+        params: IdParams,
+        action: 'delete',
+        response: {
+          200: t.Object({ deleted: t.Boolean() }),
+          403: ErrorResponse,
+          404: ErrorResponse,
+        },
+      },
+    )
+    .get('/stats', stats, {
+      action: 'read',
+      response: { 200: StatsSchema, 403: ErrorResponse },
+    })
+    .post(
+      '/pause',
+      () => {
+        manager.pause();
+        return stats();
+      },
+      {
+        action: 'pause',
+        response: { 200: StatsSchema, 403: ErrorResponse },
+      },
+    )
+    .post(
+      '/resume',
+      () => {
+        manager.resume();
+        return stats();
+      },
+      {
+        action: 'resume',
+        response: { 200: StatsSchema, 403: ErrorResponse },
+      },
+    );
+}
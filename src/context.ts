@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { BackgroundTask } from './index';
+import type { RequestSnapshot } from './request';
+import type { Span } from './tracing';
+
+/**
+ * Context available to a background task while one of its attempts is running.
+ */
+export type TaskContext = {
+  /** The task being executed */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  task: BackgroundTask<any[]>;
+  /** Signal aborted when the attempt times out or the task is cancelled */
+  signal: AbortSignal;
+  /** The number of the current attempt, starting at 1 */
+  attempt: number;
+  /** Snapshot of the request that added the task, when enabled */
+  request?: RequestSnapshot;
+  /** Span tracing the task's run, to propagate it or add attributes */
+  span?: Span;
+};
+
+/** Storage holding the context of the running attempt */
+export const taskContextStorage = new AsyncLocalStorage<TaskContext>();
+
+/**
+ * Returns the context of the background task currently running.
+ *
+ * @returns The task context, or undefined when called outside of a task
+ *
+ * @example
+ * ```typescript
+ * backgroundTasks.addTask({ timeout: 5000 }, async (url: string) => {
+ *   const { signal } = getTaskContext() ?? {};
+ *   await fetch(url, { signal });
+ * }, 'https://example.com/webhook');
+ * ```
+ */
+export const getTaskContext = (): TaskContext | undefined =>
+  taskContextStorage.getStore();
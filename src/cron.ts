@@ -0,0 +1,177 @@
+/** Shorthands for common schedules */
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+type Field = {
+  min: number;
+  max: number;
+  names?: string[];
+  /** First value of `names` */
+  offset?: number;
+};
+
+const FIELDS: Field[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: MONTHS, offset: 1 },
+  { min: 0, max: 7, names: DAYS, offset: 0 },
+];
+
+/** How far ahead to look for a matching time before giving up */
+const MAX_YEARS_AHEAD = 8;
+
+const parseValue = (value: string, field: Field, expression: string) => {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = index >= 0 ? index + (field.offset ?? 0) : Number(value);
+  if (!Number.isInteger(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid cron expression "${expression}"`);
+  }
+  return number;
+};
+
+const parseField = (
+  source: string,
+  field: Field,
+  expression: string,
+): Set<number> => {
+  const values = new Set<number>();
+  for (const part of source.split(',')) {
+    const [range = '', step = '1'] = part.split('/');
+    const increment = Number(step);
+    if (!Number.isInteger(increment) || increment < 1) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from = '', to] = range.split('-');
+      start = parseValue(from, field, expression);
+      // A single value with a step runs from that value to the end of the range
+      end =
+        to !== undefined
+          ? parseValue(to, field, expression)
+          : part.includes('/')
+            ? field.max
+            : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+/**
+ * A standard five-field cron expression (minute, hour, day of month, month,
+ * day of week), evaluated in local time.
+ * Supports `*`, ranges, lists, steps, month and day names and aliases such as `@daily`.
+ *
+ * @example
+ * ```typescript
+ * const cron = new CronExpression('*\/15 9-17 * * mon-fri');
+ * cron.next(); // next quarter hour during office hours
+ * ```
+ */
+export class CronExpression {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly days: Set<number>;
+  private readonly months: Set<number>;
+  private readonly weekdays: Set<number>;
+  /** Whether both day fields are restricted, in which case either may match */
+  private readonly eitherDay: boolean;
+
+  /**
+   * Parses a cron expression.
+   *
+   * @param expression - The cron expression
+   * @throws Error if the expression is invalid
+   */
+  constructor(public readonly expression: string) {
+    const source = ALIASES[expression.trim().toLowerCase()] ?? expression;
+    const parts = source.trim().split(/\s+/);
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`Invalid cron expression "${expression}"`);
+    }
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+      // biome-ignore lint/style/noNonNullAssertion: Bounded by the length check
+      parseField(part, FIELDS[i]!, expression),
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+    // Sunday is both 0 and 7
+    if (weekdays.delete(7)) {
+      weekdays.add(0);
+    }
+    this.minutes = minutes;
+    this.hours = hours;
+    this.days = days;
+    this.months = months;
+    this.weekdays = weekdays;
+    this.eitherDay = !parts[2]?.startsWith('*') && !parts[4]?.startsWith('*');
+  }
+
+  /**
+   * Finds the next time matching the expression.
+   *
+   * @param after - Time to search from, exclusive (defaults to now)
+   * @returns The next matching time, to the minute
+   * @throws Error if no time matches in the next years, for example on February 30th
+   */
+  public next(after: Date = new Date()): Date {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limit = after.getFullYear() + MAX_YEARS_AHEAD;
+
+    while (date.getFullYear() <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0);
+      } else if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1);
+      } else {
+        return date;
+      }
+    }
+    throw new Error(
+      `Cron expression "${this.expression}" never matches a date`,
+    );
+  }
+
+  private matchesDay(date: Date): boolean {
+    const day = this.days.has(date.getDate());
+    const weekday = this.weekdays.has(date.getDay());
+    return this.eitherDay ? day || weekday : day && weekday;
+  }
+}
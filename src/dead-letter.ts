@@ -0,0 +1,125 @@
+import type { BackgroundTask } from './index';
+import { getQueuedOptions, type QueuedTaskOptions } from './queue';
+import type { RequestSnapshot } from './request';
+
+/**
+ * Record of a task that failed permanently, after exhausting its attempts.
+ */
+export type DeadLetter = {
+  /** Identifier of the failed task */
+  id: string;
+  /** Name of the task */
+  name: string;
+  /** Name the task function was registered under, if it is registered */
+  registeredName?: string;
+  /** Arguments the task was called with */
+  args: unknown[];
+  /** Metadata attached to the task */
+  metadata: Record<string, unknown>;
+  /** Options the task was added with, restored when it is re-enqueued */
+  options?: QueuedTaskOptions;
+  /** Name and message of the final error */
+  error: { name: string; message: string };
+  /** Stack trace of the final error, if any */
+  stack?: string;
+  /** Number of attempts made */
+  attempts: number;
+  /** Snapshot of the request that added the task, when enabled */
+  request?: RequestSnapshot;
+  /** When the task was created, in milliseconds since the epoch */
+  createdAt: number;
+  /** When the task failed, in milliseconds since the epoch */
+  failedAt: number;
+};
+
+/**
+ * Storage for tasks that failed permanently, so they can be inspected and
+ * re-enqueued once the cause is fixed.
+ */
+export interface DeadLetterStore {
+  /**
+   * Stores a failed task.
+   * @param entry - The failed task
+   */
+  add(entry: DeadLetter): void | Promise<void>;
+  /**
+   * Lists the failed tasks, oldest first.
+   * @returns Every stored failed task
+   */
+  list(): DeadLetter[] | Promise<DeadLetter[]>;
+  /**
+   * Looks up a failed task.
+   * @param id - Identifier of the task
+   * @returns The failed task, or undefined if it is not stored
+   */
+  get(id: string): DeadLetter | undefined | Promise<DeadLetter | undefined>;
+  /**
+   * Removes a failed task.
+   * @param id - Identifier of the task
+   * @returns Whether the task was stored
+   */
+  delete(id: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Creates the dead-letter record of a failed task.
+ *
+ * @param task - The failed task
+ * @param registeredName - Name the task function was registered under (optional)
+ * @returns The record, with the error reduced to its name, message and stack
+ */
+export const createDeadLetter = (
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  task: BackgroundTask<any[]>,
+  registeredName?: string,
+): DeadLetter => {
+  const { error } = task;
+  return {
+    id: task.id,
+    name: task.name,
+    ...(registeredName !== undefined && {
+      registeredName,
+      options: getQueuedOptions(task, registeredName),
+    }),
+    args: task.args,
+    metadata: task.metadata,
+    error:
+      error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) },
+    stack: error instanceof Error ? error.stack : undefined,
+    attempts: task.attempts,
+    request: task.request,
+    createdAt: task.createdAt,
+    failedAt: task.finishedAt ?? Date.now(),
+  };
+};
+
+/**
+ * Dead-letter store keeping failed tasks in memory. Entries are lost on restart.
+ *
+ * @example
+ * ```typescript
+ * const app = new Elysia().use(background({ deadLetter: new MemoryDeadLetterStore() }));
+ * ```
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  /** Failed tasks, by identifier */
+  private readonly entries = new Map<string, DeadLetter>();
+
+  public add(entry: DeadLetter): void {
+    this.entries.set(entry.id, entry);
+  }
+
+  public list(): DeadLetter[] {
+    return [...this.entries.values()];
+  }
+
+  public get(id: string): DeadLetter | undefined {
+    return this.entries.get(id);
+  }
+
+  public delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+}
@@ -4,8 +4,117 @@
  * @see https://github.com/encode/starlette/blob/master/starlette/background.py
  */
 
-import { Elysia } from 'elysia';
-// import { isAsync } from 'elysia/compose';
+import { type Context, Elysia, StatusMap } from 'elysia';
+
+import { taskContextStorage } from './context';
+import { createDeadLetter, type DeadLetterStore } from './dead-letter';
+import { JobScheduler, type RecurringJob } from './jobs';
+import {
+  defaultLogger,
+  type LogFields,
+  type Logger,
+  type LogLevel,
+  TaskLogger,
+} from './logger';
+import { type MetricsOptions, TaskMetrics } from './metrics';
+import { getQueuedOptions, MemoryQueue, type QueueBackend } from './queue';
+import {
+  assertTaskArgs,
+  type TaskArgs,
+  type TaskDefinition,
+  type TaskResult,
+} from './registry';
+import {
+  createRequestSnapshot,
+  type RequestContextOptions,
+  type RequestSnapshot,
+} from './request';
+import { getRetryDelay, type RetryPolicy } from './retry';
+import {
+  Scheduler,
+  type SchedulerMetrics,
+  type SchedulerOptions,
+} from './scheduler';
+import {
+  NoopTracer,
+  parseTraceparent,
+  type Span,
+  type Tracer,
+} from './tracing';
+import { MAX_TIMER_DELAY, rejectOnAbort, sleep } from './utils';
+import { getWorkerSource, WorkerPool, type WorkerPoolOptions } from './worker';
+
+export {
+  type AdminAction,
+  type AdminOptions,
+  backgroundAdmin,
+} from './admin';
+export { getTaskContext, type TaskContext } from './context';
+export { CronExpression } from './cron';
+export {
+  type DeadLetter,
+  type DeadLetterStore,
+  MemoryDeadLetterStore,
+} from './dead-letter';
+export { type JobInfo, JobScheduler, type RecurringJob } from './jobs';
+export {
+  consoleLogger,
+  type LogFields,
+  type Logger,
+  type LogLevel,
+  TaskLogger,
+} from './logger';
+export {
+  backgroundMetrics,
+  type HistogramSnapshot,
+  type MetricsOptions,
+  type TaskCounter,
+  type TaskHistogram,
+  TaskMetrics,
+  type TaskMetricsSnapshot,
+} from './metrics';
+export {
+  MemoryQueue,
+  type QueueBackend,
+  type QueuedTask,
+  type QueuedTaskOptions,
+} from './queue';
+export {
+  RateLimiter,
+  type RateLimitReservation,
+  type RateLimitRule,
+} from './rate-limit';
+export {
+  defineTask,
+  type TaskArgs,
+  type TaskDefinition,
+  type TaskResult,
+} from './registry';
+export type { RequestContextOptions, RequestSnapshot } from './request';
+export type { RetryPolicy } from './retry';
+export {
+  BackgroundQueueFullError,
+  type OverflowPolicy,
+  Scheduler,
+  type SchedulerMetrics,
+  type SchedulerOptions,
+} from './scheduler';
+export {
+  formatTraceparent,
+  MemorySpan,
+  MemoryTracer,
+  NoopTracer,
+  parseTraceparent,
+  type Span,
+  type SpanAttributes,
+  type SpanContext,
+  type Tracer,
+} from './tracing';
+export {
+  WorkerPool,
+  type WorkerPoolOptions,
+  type WorkerRunOptions,
+} from './worker';
 
 /**
  * Interface for background tasks that can be executed asynchronously.
@@ -31,9 +140,86 @@ export class BackgroundTaskError extends Error {
     // biome-ignore lint/suspicious/noExplicitAny: Generic task type
     public readonly task: BackgroundTask<any[]>,
   ) {
-    super('Background task failed');
+    super(`Background task "${task.name}" failed`);
     this.name = 'BackgroundTaskError';
   }
+
+  /** Snapshot of the request that added the failed task, when enabled */
+  public get request(): RequestSnapshot | undefined {
+    return this.task.request;
+  }
+}
+
+/**
+ * Aggregated error for a task collection that kept running after failures.
+ * @property errors - Every task failure, in the order they happened
+ * @property skipped - Tasks that never ran, for example because a dependency failed
+ */
+export class BackgroundTasksError extends Error {
+  constructor(
+    public readonly errors: BackgroundTaskError[],
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    public readonly skipped: BackgroundTask<any[]>[] = [],
+  ) {
+    super(
+      skipped.length > 0
+        ? `${errors.length} background task(s) failed, ${skipped.length} skipped`
+        : `${errors.length} background task(s) failed`,
+    );
+    this.name = 'BackgroundTasksError';
+  }
+}
+
+/**
+ * Error thrown when an attempt of a background task exceeds its timeout.
+ * @property task - The BackgroundTask instance that timed out
+ * @property timeout - The timeout in milliseconds that was exceeded
+ */
+export class BackgroundTaskTimeoutError extends Error {
+  constructor(
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    public readonly task: BackgroundTask<any[]>,
+    public readonly timeout: number,
+  ) {
+    super(`Background task timed out after ${timeout}ms`);
+    this.name = 'BackgroundTaskTimeoutError';
+  }
+}
+
+/**
+ * Error thrown when a background task is cancelled.
+ * Cancelled tasks are not reported to `onError`.
+ * @property task - The BackgroundTask instance that was cancelled
+ * @property reason - The reason passed to `cancel()`, if any
+ */
+export class BackgroundTaskCancelledError extends Error {
+  constructor(
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    public readonly task: BackgroundTask<any[]>,
+    public readonly reason?: unknown,
+  ) {
+    super('Background task was cancelled');
+    this.name = 'BackgroundTaskCancelledError';
+  }
+}
+
+/**
+ * Error thrown when a background task never ran because its collection stopped first,
+ * for example after an earlier task failed in `sequential` mode, or because one of
+ * its dependencies did not succeed.
+ * Skipped tasks are not reported to `onError`.
+ * @property task - The BackgroundTask instance that was skipped
+ * @property reason - Why the task was skipped
+ */
+export class BackgroundTaskSkippedError extends Error {
+  constructor(
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    public readonly task: BackgroundTask<any[]>,
+    public readonly reason: string,
+  ) {
+    super(`Background task was skipped: ${reason}`);
+    this.name = 'BackgroundTaskSkippedError';
+  }
 }
 
 // biome-ignore lint/suspicious/noExplicitAny: Allow adding function with any arguments
@@ -43,12 +229,414 @@ const isAsyncFunction = <P extends any[]>(
 ): boolean => func.constructor.name === 'AsyncFunction';
 
 /**
- * Function type for background tasks. Only async functions are supported.
+ * Function type for background tasks. Sync functions, async functions and
+ * functions returning a promise are all supported.
  *
  * @template P - Parameter types for the task function
+ * @template R - Result type of the task function
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Allow adding function with any arguments
+type TaskFunction<P extends any[], R = unknown> = (
+  ...args: P
+) => R | Promise<R>;
+
+/**
+ * Invokes an optional hook, logging instead of throwing if the hook fails.
+ *
+ * @param name - Name of the hook used in the log message
+ * @param hook - The hook to invoke
+ * @param event - The event passed to the hook
+ * @param logger - Where the failure is logged (optional)
+ */
+const invokeHook = async <E>(
+  name: string,
+  hook: ((event: E) => void | Promise<void>) | undefined,
+  event: E,
+  logger: TaskLogger = defaultLogger,
+): Promise<void> => {
+  try {
+    await hook?.(event);
+  } catch (handlerError) {
+    logger.log('error', `${name} handler failed`, { err: handlerError });
+  }
+};
+
+/**
+ * When the tasks added by a request run, depending on its response status.
+ * - `always`: whatever the response
+ * - `success`: only if the response status is 2xx
+ * - `error`: only if the response status is 4xx or 5xx
+ */
+export type RunCondition = 'always' | 'success' | 'error';
+
+/**
+ * Returns the status of the response sent for a request.
+ *
+ * @param context - The request context, once the response is sent
+ * @returns The numeric status code
+ */
+const getResponseStatus = (context: Context): number => {
+  const { status = 200 } = context.set;
+  return typeof status === 'number' ? status : StatusMap[status];
+};
+
+/**
+ * Checks whether a run condition holds for a response status.
+ *
+ * @param condition - The run condition
+ * @param status - The response status
+ * @returns Whether tasks with the condition should run
+ */
+const meetsCondition = (condition: RunCondition, status: number): boolean => {
+  switch (condition) {
+    case 'success':
+      return status >= 200 && status < 300;
+    case 'error':
+      return status >= 400;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Options for an individual background task.
+ */
+export type TaskOptions = {
+  /**
+   * Name of the task, used in error reports and introspection.
+   * Defaults to the function's name.
+   */
+  name?: string;
+  /**
+   * Arbitrary metadata attached to the task, available for introspection.
+   */
+  metadata?: Record<string, unknown>;
+  /**
+   * Retry policy for the task. Replaces the plugin-wide default policy.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Maximum time in milliseconds for each attempt. Replaces the plugin-wide default.
+   * When exceeded, the task's signal is aborted and the attempt fails with
+   * `BackgroundTaskTimeoutError`.
+   */
+  timeout?: number;
+  /**
+   * Earlier tasks of the same collection that must succeed before this one runs.
+   * Their results are passed to the function ahead of its own arguments.
+   * If any of them fails, is cancelled or skipped, this task is skipped.
+   */
+  dependsOn?: readonly BackgroundTaskHandle[];
+  /**
+   * Time in milliseconds to wait before running the task.
+   * Ignored when `runAt` is given.
+   */
+  delay?: number;
+  /**
+   * When to run the task, as a date or a timestamp in milliseconds since the epoch.
+   * Tasks due in the past run right away.
+   */
+  runAt?: Date | number;
+  /**
+   * Idempotency key of the task. When the plugin runs a task whose key is held
+   * by another task within the deduplication window, the task is deduplicated
+   * instead of run. Ignored by standalone collections.
+   */
+  key?: string;
+  /**
+   * When the task runs, depending on the status of the response of the
+   * request that added it. Tasks whose condition does not hold are skipped.
+   * Replaces the plugin-wide default. Ignored by standalone collections.
+   * @default 'always'
+   */
+  when?: RunCondition;
+  /**
+   * Runs the task in a worker pool, off the main thread: `true` for the
+   * plugin's pool, configured with its `workers` option, or a pool of its own.
+   * The function is sent to the worker as source code, so it cannot be a
+   * method nor use variables or imports from its enclosing scope, and its
+   * arguments and result must be structured-cloneable.
+   * Dependency results are passed to it as arguments, but `getTaskContext()`
+   * is not available in the worker.
+   * @default false
+   */
+  worker?: boolean | WorkerPool;
+};
+
+/**
+ * How duplicate tasks sharing an idempotency key are handled.
+ */
+export type DeduplicationOptions = {
+  /**
+   * Time in milliseconds a key stays held once its task is about to run.
+   * @default 60000
+   */
+  window?: number;
+  /**
+   * What happens to a duplicate task.
+   * - `skip`: the task is skipped
+   * - `coalesce`: the task settles with the outcome of the task holding the key,
+   *   or is skipped if that task does not succeed or runs in another process
+   * @default 'skip'
+   */
+  strategy?: 'skip' | 'coalesce';
+};
+
+/**
+ * Lifecycle status of a background task.
+ */
+export type TaskStatus =
+  | 'pending'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped';
+
+/**
+ * Serializable summary of a background task, as returned by `BackgroundTasks.list()`.
+ */
+export type TaskInfo = {
+  /** Unique identifier of the task */
+  id: string;
+  /** Name of the task */
+  name: string;
+  /** Metadata attached to the task */
+  metadata: Record<string, unknown>;
+  /** Current status */
+  status: TaskStatus;
+  /** Number of attempts made so far */
+  attempts: number;
+  /** When the task was created, in milliseconds since the epoch */
+  createdAt: number;
+  /** When the task started running, if it has */
+  startedAt?: number;
+  /** When the task finished running or was cancelled, if it has */
+  finishedAt?: number;
+  /** Ids of the tasks this task depends on */
+  dependsOn: string[];
+  /** When the task is due to run, if it was delayed */
+  runAt?: number;
+  /** Idempotency key of the task, if any */
+  key?: string;
+};
+
+/**
+ * Handle to a queued background task, returned by `addTask`.
+ *
+ * @template R - Result type of the task function
+ */
+export interface BackgroundTaskHandle<R = unknown> {
+  /** Unique identifier of the task */
+  readonly id: string;
+  /** Name of the task */
+  readonly name: string;
+  /** Current status */
+  readonly status: TaskStatus;
+  /**
+   * Settles once the task finishes: resolves with the task's result, or rejects
+   * with its error, `BackgroundTaskCancelledError` or `BackgroundTaskSkippedError`.
+   */
+  readonly done: Promise<R>;
+  /**
+   * Cancels the task if it has not finished yet.
+   * @param reason - Reason for the cancellation (optional)
+   */
+  cancel(reason?: unknown): void;
+}
+
+/**
+ * Results of a list of task handles, in the same order.
+ *
+ * @template D - Task handles a task depends on
+ */
+export type TaskResults<D extends readonly BackgroundTaskHandle[]> = {
+  -readonly [K in keyof D]: D[K] extends BackgroundTaskHandle<infer R>
+    ? R
+    : never;
+};
+
+/**
+ * Splits the arguments of `addTask` and the `BackgroundTask` constructor,
+ * where the leading options object is optional.
+ *
+ * @param input - Optional options, followed by the function and its arguments
+ * @returns The options, function and arguments
  */
 // biome-ignore lint/suspicious/noExplicitAny: Allow adding function with any arguments
-type TaskFunction<P extends any[]> = (...args: P) => void | Promise<void>;
+const parseTaskInput = <P extends any[], R>(
+  input: unknown[],
+): [TaskOptions, TaskFunction<P, R>, P] => {
+  const [options, func, ...args] =
+    typeof input[0] === 'function' ? [{}, ...input] : input;
+  return [options as TaskOptions, func as TaskFunction<P, R>, args as P];
+};
+
+/**
+ * Hooks notified while a background task executes.
+ */
+export type TaskHooks = {
+  /**
+   * Called after a failed attempt that will be retried.
+   * Only the final failure is reported to `onError`.
+   * @param event - The event object containing the error, task, attempt number and delay before the next attempt
+   * @returns void or Promise<void>
+   */
+  onRetry?: (event: {
+    error: unknown;
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>;
+    attempt: number;
+    delay: number;
+  }) => void | Promise<void>;
+  /**
+   * Called before each task starts, once it has a free slot.
+   * @param event - The event object containing the task, its arguments, start time and request context
+   * @returns void or Promise<void>
+   */
+  onTaskStart?: (event: {
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>;
+    args: unknown[];
+    startedAt: number;
+    context?: Context;
+  }) => void | Promise<void>;
+  /**
+   * Called after each task succeeds.
+   * @param event - The event object containing the task, its arguments, timing and request context
+   * @returns void or Promise<void>
+   */
+  onTaskSuccess?: (event: {
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>;
+    args: unknown[];
+    startedAt: number;
+    duration: number;
+    context?: Context;
+  }) => void | Promise<void>;
+  /**
+   * Called after each task that started, whatever its outcome.
+   * @param event - The event object containing the task, its arguments, outcome, error if any, timing and request context
+   * @returns void or Promise<void>
+   */
+  onTaskFinish?: (event: {
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>;
+    args: unknown[];
+    outcome: Exclude<TaskStatus, 'pending' | 'running'>;
+    error?: unknown;
+    startedAt: number;
+    duration: number;
+    context?: Context;
+  }) => void | Promise<void>;
+  /**
+   * Called when a task is deduplicated because another task holds its idempotency key.
+   * @param event - The event object containing the task, its key, the task holding the key and request context
+   * @returns void or Promise<void>
+   */
+  onTaskDeduplicated?: (event: {
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>;
+    key: string;
+    /** Id of the task holding the key */
+    originalId: string;
+    /** The task holding the key, unless it runs in another process */
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    original?: BackgroundTask<any[]>;
+    context?: Context;
+  }) => void | Promise<void>;
+  /**
+   * Called after every task of a collection has finished or been skipped.
+   * @param event - The event object containing the tasks, their failures, timing and request context
+   * @returns void or Promise<void>
+   */
+  onBatchFinish?: (event: {
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    tasks: BackgroundTask<any[]>[];
+    errors: BackgroundTaskError[];
+    startedAt: number;
+    duration: number;
+    context?: Context;
+  }) => void | Promise<void>;
+};
+
+/**
+ * How a task collection executes its tasks.
+ * - `sequential`: one at a time, stopping at the first failure
+ * - `continue-on-error`: one at a time, running every task regardless of failures
+ * - `parallel`: up to `concurrency` tasks at a time, running every task regardless of failures
+ * - `dag`: up to `concurrency` tasks at a time, starting each task as soon as its
+ *   dependencies have succeeded, so independent branches run concurrently
+ */
+export type ExecutionMode =
+  | 'sequential'
+  | 'continue-on-error'
+  | 'parallel'
+  | 'dag';
+
+/**
+ * Execution options for a task collection.
+ */
+export type ExecutionOptions = {
+  /**
+   * How tasks are executed.
+   * @default 'sequential'
+   */
+  mode?: ExecutionMode;
+  /**
+   * Maximum number of tasks running at the same time in `parallel` and `dag` modes.
+   * @default Infinity
+   */
+  concurrency?: number;
+};
+
+/**
+ * Options for a task collection.
+ */
+export type BackgroundTasksOptions = ExecutionOptions & {
+  /** Default options for every task added to the collection */
+  defaults?: TaskOptions;
+  /** Hooks notified while tasks execute */
+  hooks?: TaskHooks;
+  /** Scheduler limiting concurrency and queueing across collections */
+  scheduler?: Scheduler;
+  /** Context of the request that created the collection, passed to hooks */
+  context?: Context;
+  /** Task definitions that can be enqueued by name */
+  definitions?: ReadonlyMap<string, TaskDefinition>;
+  /**
+   * Claims the idempotency key of a task about to run, returning the task or
+   * id of the task already holding it, if any. Without it, keys are ignored.
+   */
+  claimKey?: (
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>,
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  ) => Promise<BackgroundTask<any[]> | string | undefined>;
+  /**
+   * Whether duplicate tasks settle with the outcome of the task holding their key
+   * instead of being skipped.
+   * @default false
+   */
+  coalesceDuplicates?: boolean;
+  /** Where failing hooks are logged */
+  logger?: TaskLogger;
+  /**
+   * Functions run instead of the tasks with the same name, for example to
+   * stub tasks in tests. Stubbed tasks keep their name and arguments.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow stubbing functions with any arguments
+  stubs?: ReadonlyMap<string, TaskFunction<any[]>>;
+  /**
+   * Runs a task added once the collection has finished running, such as a
+   * task added by a WebSocket handler after the upgrade response was sent.
+   * Without it, such tasks never run.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  submit?: (task: BackgroundTask<any[]>) => void;
+  /** Worker pool running the tasks added with `worker: true` */
+  workers?: WorkerPool;
+};
 
 /**
  * Configuration options for the background task plugin.
@@ -60,24 +648,151 @@ type TaskFunction<P extends any[]> = (...args: P) => void | Promise<void>;
  *   onError: (error) => console.error('Task failed:', error)
  * }));
  * ```
+ *
+ * @template D - Task definitions that can be enqueued by name
  */
-export type BackgroundOptions = {
+export type BackgroundOptions<
+  D extends readonly TaskDefinition[] = readonly TaskDefinition[],
+> = TaskHooks & {
   /**
-   * Error handler for failed background tasks. Defaults to console logging if not provided.
-   * @param event - The error event object containing error and task
+   * Error handler for failed background tasks. Defaults to logging with `logger` if not provided.
+   * @param event - The error event object containing error, task and request snapshot
    * @returns void or Promise<void>
    */
   onError?: (event: {
     error: unknown;
     // biome-ignore lint/suspicious/noExplicitAny: Generic task type
     task?: BackgroundTask<any[]>;
+    request?: RequestSnapshot;
+  }) => void | Promise<void>;
+  /**
+   * Takes a read-only snapshot of each request for its tasks, available as
+   * `getTaskContext().request`, `task.request` and in `onError`.
+   * Pass options to choose which headers and values are copied.
+   * @default false
+   */
+  requestContext?: boolean | RequestContextOptions;
+  /**
+   * Default execution options for every request's task collection.
+   * Can be overridden per request with `backgroundTasks.configure()`.
+   */
+  execution?: ExecutionOptions;
+  /**
+   * Limits shared by every request: how many tasks run at the same time,
+   * how many can be queued and what happens when the queue is full.
+   */
+  scheduler?: SchedulerOptions;
+  /**
+   * Default retry policy for every task. Tasks added with their own
+   * `retry` option replace it.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Default timeout in milliseconds for each attempt of every task.
+   * Tasks added with their own `timeout` option replace it.
+   */
+  timeout?: number;
+  /**
+   * Default condition for running the tasks of a request, depending on its
+   * response status. Tasks added with their own `when` option replace it.
+   * @default 'always'
+   */
+  when?: RunCondition;
+  /**
+   * Maximum time in milliseconds to wait for in-flight tasks when the app stops.
+   * Tasks still unfinished after this are abandoned and reported to `onAbandon`.
+   * @default 10000
+   */
+  drainTimeout?: number;
+  /**
+   * Process signals that trigger a graceful shutdown once the app is listening.
+   * The server is stopped, in-flight tasks are drained and the signal is re-raised.
+   * @default []
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * Handler for tasks abandoned during shutdown, either because the drain timeout
+   * elapsed or because they were queued after shutdown began.
+   * Defaults to logging with `logger` if not provided.
+   * @param event - The event object containing the abandoned tasks
+   * @returns void or Promise<void>
+   */
+  onAbandon?: (event: {
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    tasks: BackgroundTask<any[]>[];
   }) => void | Promise<void>;
+  /**
+   * Registered tasks: either definitions created with `defineTask`, which can be
+   * enqueued by name, or task functions by name. Tasks added with a registered
+   * function are stored in the queue backend with their arguments before the
+   * response is sent, and replayed on startup if they never completed.
+   * Their arguments must be JSON-serializable.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow registering functions with any arguments
+  tasks?: D | Record<string, TaskFunction<any[]>>;
+  /**
+   * Where registered tasks are persisted.
+   * @default new MemoryQueue()
+   */
+  queue?: QueueBackend;
+  /**
+   * Jobs run on a recurring schedule while the app is running.
+   * Each run executes as a background task with the plugin's retries, timeout
+   * and hooks, and is skipped if the previous run is still in progress.
+   * @default []
+   */
+  jobs?: RecurringJob[];
+  /**
+   * How tasks added with the same `key` are deduplicated. Keys are held in
+   * memory, and also claimed through the queue backend when it supports it,
+   * so duplicates are detected across processes sharing the backend.
+   */
+  deduplication?: DeduplicationOptions;
+  /**
+   * Where tasks that failed permanently are recorded, with their arguments,
+   * error and request, so they can be inspected and re-enqueued.
+   * Tasks are not recorded if omitted.
+   */
+  deadLetter?: DeadLetterStore;
+  /**
+   * Names and histogram buckets of the task metrics, available as
+   * `background.taskMetrics` and in the Prometheus text format.
+   */
+  metrics?: MetricsOptions;
+  /**
+   * Tracer starting a span for every task run, with the task's name, attempts
+   * and outcome as attributes. The span of a request's task is a child of the
+   * trace context in the request headers, read from `traceparent` by default.
+   * @default new NoopTracer()
+   */
+  tracer?: Tracer;
+  /**
+   * Logger receiving every task lifecycle event with structured fields: task
+   * id and name, request id, attempt and duration. Accepts `pino` and
+   * compatible loggers.
+   * @default consoleLogger
+   */
+  logger?: Logger;
+  /**
+   * Minimum level of the messages logged. Tasks are enqueued, started and
+   * deduplicated at `debug`, succeed and are cancelled at `info`, are retried
+   * at `warn`, and fail or are abandoned at `error`.
+   * @default 'info', or 'error' for the console so only failures are logged
+   */
+  logLevel?: LogLevel;
+  /**
+   * Worker pool running the tasks added with `worker: true`, or the options
+   * of a pool to create. The pool is terminated once the app has stopped and
+   * its tasks are drained or abandoned.
+   */
+  workers?: WorkerPool | WorkerPoolOptions;
 };
 
 /**
- * A background task that wraps an async function for execution.
+ * A background task that wraps a function for execution.
  *
  * @template P - Parameter types for the task function
+ * @template R - Result type of the task function
  * @example
  * ```typescript
  * // Create and run a simple task
@@ -94,62 +809,353 @@ export type BackgroundOptions = {
  *   "user@example.com",
  *   "Welcome"
  * );
+ *
+ * // Task with a retry policy
+ * const flakyTask = new BackgroundTask(
+ *   { retry: { attempts: 3, delay: 500 } },
+ *   sendEmail,
+ *   "user@example.com",
+ *   "Welcome"
+ * );
+ *
+ * // Task with a timeout, using the signal to stop a hung request
+ * const webhookTask = new BackgroundTask({ timeout: 5000 }, async (url: string) => {
+ *   await fetch(url, { signal: getTaskContext()?.signal });
+ * }, "https://example.com/webhook");
  * ```
  */
 // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
-export class BackgroundTask<P extends any[]> implements IBackgroundTask {
+export class BackgroundTask<P extends any[], R = unknown>
+  implements IBackgroundTask, BackgroundTaskHandle<R>
+{
+  /** Unique identifier of the task */
+  public readonly id: string = crypto.randomUUID();
+  /** Name of the task, defaulting to the function's name */
+  public readonly name: string;
+  /** Metadata attached to the task */
+  public readonly metadata: Record<string, unknown>;
+  /** Tasks that must succeed before this one runs */
+  public readonly dependencies: readonly BackgroundTaskHandle[];
   /** The function to execute */
-  public readonly func: TaskFunction<P>;
+  public readonly func: TaskFunction<P, R>;
   /** Arguments for the function */
   public readonly args: P;
-  /** Whether the function is async */
+  /** Whether the function is declared async */
   public readonly isAsync: boolean;
+  /** Options for the task */
+  public readonly options: TaskOptions;
+  /** Number of attempts made so far */
+  public attempts = 0;
+  /** Current status */
+  public status: TaskStatus = 'pending';
+  /** When the task was created, in milliseconds since the epoch */
+  public readonly createdAt: number = Date.now();
+  /** When the task is due to run, if it was delayed */
+  public readonly runAt?: number;
+  /** When the task started running, if it has */
+  public startedAt?: number;
+  /** When the task finished running or was cancelled, if it has */
+  public finishedAt?: number;
+  /** Snapshot of the request that added the task, when enabled */
+  public request?: RequestSnapshot;
+  /** Span tracing the task's run, once it has started */
+  public span?: Span;
+  /** Result of the task, once it has succeeded */
+  public result?: R;
+  /** Error of the task, once it has failed, been cancelled or skipped */
+  public error?: unknown;
+  /** Settles once the task finishes with its result or error */
+  public readonly done: Promise<R>;
+  /** Controller aborted when the task is cancelled */
+  private readonly controller = new AbortController();
+  /** Resolvers of the `done` promise */
+  private readonly settle: {
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+  };
 
   /**
    * Creates a new BackgroundTask.
    *
-   * @param func - The async function to execute
+   * @param func - The function to execute
+   * @param args - Arguments to pass to the function
+   */
+  constructor(func: TaskFunction<P, R>, ...args: P);
+  /**
+   * Creates a new BackgroundTask with options.
+   *
+   * @param options - Options for the task
+   * @param func - The function to execute
    * @param args - Arguments to pass to the function
    */
-  constructor(func: TaskFunction<P>, ...args: P) {
+  constructor(options: TaskOptions, func: TaskFunction<P, R>, ...args: P);
+  constructor(...input: unknown[]) {
+    const [options, func, args] = parseTaskInput<P, R>(input);
+    if (options.worker === true) {
+      throw new Error(
+        'Tasks added with `worker: true` need the worker pool of the background plugin, set with its `workers` option',
+      );
+    }
+    if (options.worker) {
+      getWorkerSource(func);
+    }
     this.func = func;
     this.args = args;
+    this.options = options;
     this.isAsync = isAsyncFunction(func);
+    this.name = options.name ?? (func.name || 'anonymous');
+    this.metadata = options.metadata ?? {};
+    this.dependencies = options.dependsOn ?? [];
+    if (options.runAt !== undefined) {
+      this.runAt = new Date(options.runAt).getTime();
+    } else if (options.delay !== undefined) {
+      this.runAt = this.createdAt + options.delay;
+    }
+
+    const { promise, resolve, reject } = Promise.withResolvers<R>();
+    this.done = promise;
+    this.settle = { resolve: resolve as (value: unknown) => void, reject };
+    // Fire-and-forget tasks must not cause unhandled rejections
+    promise.catch(() => {});
+  }
+
+  /** Signal aborted when the task is cancelled */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Whether the task has been cancelled */
+  public get cancelled(): boolean {
+    return this.controller.signal.aborted;
   }
 
   /**
-   * Executes the background task.
+   * Cancels the task. A queued task will not run, and a running task has its
+   * signal aborted and fails with `BackgroundTaskCancelledError`.
+   * Has no effect once the task has finished.
    *
-   * @returns Promise that resolves when execution completes
-   * @throws Error if function is not async
+   * @param reason - Reason for the cancellation (optional)
    */
-  async run(): Promise<void> {
-    if (this.isAsync) {
-      await this.func(...this.args);
-    } else {
-      throw new Error(
-        'Background task does not support synchronous functions. Please use async functions.',
-      );
-      // NOTE: Tried to make sync functions run in the background — nope, didn’t work at all.
-      // They block the event loop completely. I even gave Worker threads a shot, but that just made things worse.
-      // It’s just not built for this, and honestly... I gave up. No idea how to make it work cleanly.
-      // So yeah, async only for now. Sorry folks!
-      // References: https://bun.sh/docs/api/workers, https://developer.mozilla.org/en-US/docs/Web/API/Worker
+  public cancel(reason?: unknown): void {
+    if (this.status !== 'pending' && this.status !== 'running') {
+      return;
+    }
+    this.controller.abort(new BackgroundTaskCancelledError(this, reason));
+    if (this.status === 'pending') {
+      this.finish('cancelled', this.signal.reason);
     }
   }
-}
 
-/**
- * Collection of background tasks that execute sequentially.
- * If one task fails, execution stops.
- *
- * @example
- * ```typescript
- * // Create task queue and add tasks
- * const tasks = new BackgroundTasks();
- *
- * tasks.addTask(async () => {
- *   console.log("First task");
+  /**
+   * Marks a task that never started as skipped, so it will not run.
+   * Used by collections for tasks left over when they stop early.
+   * Has no effect once the task has started.
+   *
+   * @param reason - Why the task was skipped
+   */
+  public skip(reason: string): void {
+    if (this.status === 'pending') {
+      this.finish('skipped', new BackgroundTaskSkippedError(this, reason));
+    }
+  }
+
+  /**
+   * Settles a task that never started with the outcome of another task, so it
+   * will not run. If the other task does not succeed, the task is skipped.
+   * Has no effect once the task has started.
+   *
+   * @param original - The task whose outcome to adopt
+   */
+  public coalesce(original: BackgroundTaskHandle<R>): void {
+    if (this.status !== 'pending') {
+      return;
+    }
+    original.done.then(
+      (result) => {
+        if (this.status === 'pending') {
+          this.finish('succeeded', result);
+        }
+      },
+      () => {
+        this.skip(`duplicate task "${original.id}" ${original.status}`);
+      },
+    );
+  }
+
+  /**
+   * Returns a serializable summary of the task.
+   *
+   * @returns The task's identity, status, timestamps and attempt count
+   */
+  public toJSON(): TaskInfo {
+    return {
+      id: this.id,
+      name: this.name,
+      metadata: this.metadata,
+      status: this.status,
+      attempts: this.attempts,
+      createdAt: this.createdAt,
+      startedAt: this.startedAt,
+      finishedAt: this.finishedAt,
+      dependsOn: this.dependencies.map((dependency) => dependency.id),
+      runAt: this.runAt,
+      key: this.options.key,
+    };
+  }
+
+  /**
+   * Executes the background task, retrying failed attempts according to its retry policy.
+   * Functions that are not declared async are deferred to a later macrotask,
+   * so synchronous work never runs in the same tick the task was started.
+   * Waits for the task's dependencies and passes their results to the function.
+   *
+   * @param hooks - Hooks notified while the task executes (optional)
+   * @param logger - Where failing hooks are logged (optional)
+   * @param backoff - Waits out the delay before every retry instead of sleeping, such as to free a concurrency slot meanwhile (optional)
+   * @returns Promise that resolves when execution completes
+   * @throws BackgroundTaskCancelledError if the task is cancelled
+   * @throws Error from a dependency if it does not succeed
+   * @throws Error from the last attempt if every attempt fails
+   */
+  async run(
+    hooks: TaskHooks = {},
+    logger: TaskLogger = defaultLogger,
+    backoff?: (delay: number) => Promise<void>,
+  ): Promise<void> {
+    if (this.status !== 'pending') {
+      throw this.error ?? new Error('Background task has already run');
+    }
+    this.status = 'running';
+    this.startedAt = Date.now();
+    try {
+      this.finish('succeeded', await this.runAttempts(hooks, logger, backoff));
+    } catch (error) {
+      this.finish(
+        error instanceof BackgroundTaskCancelledError ? 'cancelled' : 'failed',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private finish(status: TaskStatus, outcome: unknown): void {
+    this.status = status;
+    this.finishedAt = Date.now();
+    if (status === 'succeeded') {
+      this.result = outcome as R;
+      this.settle.resolve(outcome);
+    } else {
+      this.error = outcome;
+      this.settle.reject(outcome);
+    }
+  }
+
+  private async runAttempts(
+    hooks: TaskHooks,
+    logger: TaskLogger,
+    backoff?: (delay: number) => Promise<void>,
+  ): Promise<R> {
+    const policy = this.options.retry ?? {};
+    const maxAttempts = policy.attempts ?? 1;
+    const upstream = await Promise.all(
+      this.dependencies.map((dependency) => dependency.done),
+    );
+
+    for (;;) {
+      this.signal.throwIfAborted();
+      this.attempts++;
+      try {
+        return await this.attempt(upstream);
+      } catch (error) {
+        if (
+          this.cancelled ||
+          this.attempts >= maxAttempts ||
+          (policy.shouldRetry &&
+            !(await policy.shouldRetry(error, this.attempts)))
+        ) {
+          throw this.cancelled ? this.signal.reason : error;
+        }
+
+        const delay = getRetryDelay(policy, this.attempts);
+        await invokeHook(
+          'Retry',
+          hooks.onRetry,
+          { error, task: this, attempt: this.attempts, delay },
+          logger,
+        );
+        if (backoff) {
+          await backoff(delay);
+        } else {
+          await sleep(delay, this.signal);
+        }
+      }
+    }
+  }
+
+  private async attempt(upstream: unknown[]): Promise<R> {
+    const { timeout } = this.options;
+    const timeoutController = new AbortController();
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            timeoutController.abort(
+              new BackgroundTaskTimeoutError(this, timeout),
+            );
+          }, timeout);
+    const signal = AbortSignal.any([this.signal, timeoutController.signal]);
+
+    try {
+      return await Promise.race([
+        taskContextStorage.run(
+          {
+            task: this,
+            signal,
+            attempt: this.attempts,
+            request: this.request,
+            span: this.span,
+          },
+          async () => {
+            if (!this.isAsync) {
+              await new Promise((resolve) => setImmediate(resolve));
+              signal.throwIfAborted();
+            }
+            const { worker } = this.options;
+            if (worker instanceof WorkerPool) {
+              // Timeouts and cancellation terminate the worker running the task
+              return worker.run(
+                { signal },
+                this.func as TaskFunction<unknown[], R>,
+                ...upstream,
+                ...this.args,
+              ) as Promise<R>;
+            }
+            // Dependency results are passed ahead of the task's own arguments
+            return (this.func as TaskFunction<unknown[], R>)(
+              ...upstream,
+              ...this.args,
+            );
+          },
+        ),
+        rejectOnAbort(signal),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Collection of background tasks.
+ * By default tasks execute sequentially and execution stops if one task fails.
+ *
+ * @example
+ * ```typescript
+ * // Create task queue and add tasks
+ * const tasks = new BackgroundTasks();
+ *
+ * tasks.addTask(async () => {
+ *   console.log("First task");
  * });
  *
  * tasks.addTask(async (name: string) => {
@@ -158,52 +1164,1396 @@ export class BackgroundTask<P extends any[]> implements IBackgroundTask {
  *
  * // Execute all tasks
  * await tasks.run();
+ *
+ * // Run independent tasks concurrently
+ * const parallel = new BackgroundTasks([], { mode: 'parallel', concurrency: 2 });
  * ```
+ *
+ * @template D - Task definitions that can be enqueued by name
  */
-export class BackgroundTasks implements IBackgroundTask {
+export class BackgroundTasks<D extends TaskDefinition = never>
+  implements IBackgroundTask
+{
   /** Array of background tasks */
   // biome-ignore lint/suspicious/noExplicitAny:Allow adding tasks with any arguments
   private tasks: BackgroundTask<any[]>[];
+  /** Execution options, task defaults and hooks */
+  private options: BackgroundTasksOptions;
+  /** Tasks that have finished executing */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  private readonly settled = new Set<BackgroundTask<any[]>>();
+  /** Whether the collection has been closed */
+  private closed = false;
+  /** Whether the collection has finished running, so later tasks are submitted on their own */
+  private finished = false;
+  /** Snapshot of the request that created the collection, given to its tasks when they run */
+  public request?: RequestSnapshot;
 
   /**
    * Creates a new BackgroundTasks instance.
    *
    * @param tasks - Initial tasks (optional)
+   * @param options - Execution options, task defaults and hooks (optional)
    */
   constructor(
     // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
     tasks: BackgroundTask<any[]>[] = [],
+    options: BackgroundTasksOptions = {},
   ) {
     this.tasks = tasks;
+    this.options = options;
+  }
+
+  /**
+   * Overrides the execution options for this collection.
+   *
+   * @param options - Execution options to merge with the current ones
+   */
+  public configure(options: ExecutionOptions): void {
+    this.options = { ...this.options, ...options };
   }
 
   /**
    * Adds a background task to the queue.
    *
    * @template P - Parameter types for the task function
-   * @param func - The async function to execute
+   * @template R - Result type of the task function
+   * @param func - The function to execute
    * @param args - Arguments to pass to the function
+   * @returns Handle to the queued task, to await its result or cancel it
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
    */
   // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
-  public addTask<P extends any[]>(func: TaskFunction<P>, ...args: P): void {
-    const task = new BackgroundTask(func, ...args);
+  public addTask<P extends any[], R>(
+    func: TaskFunction<P, R>,
+    ...args: P
+  ): BackgroundTask<P, R>;
+  /**
+   * Adds a background task that runs once its dependencies have succeeded.
+   * Their results are passed to the function ahead of its own arguments.
+   *
+   * @template D - Task handles the task depends on
+   * @template P - Parameter types for the task function, after the dependency results
+   * @template R - Result type of the task function
+   * @param options - Options for the task, including the tasks it depends on
+   * @param func - The function to execute
+   * @param args - Arguments to pass to the function after the dependency results
+   * @returns Handle to the queued task, to await its result or cancel it
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
+   * @throws Error if a dependency was not added to this collection
+   */
+  public addTask<
+    const D extends readonly BackgroundTaskHandle[],
+    // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+    P extends any[],
+    R,
+  >(
+    options: TaskOptions & { dependsOn: D },
+    func: TaskFunction<[...TaskResults<D>, ...P], R>,
+    ...args: P
+  ): BackgroundTask<P, R>;
+  /**
+   * Adds a background task with options to the queue.
+   *
+   * @template P - Parameter types for the task function
+   * @template R - Result type of the task function
+   * @param options - Options for the task, merged over the collection defaults
+   * @param func - The function to execute
+   * @param args - Arguments to pass to the function
+   * @returns Handle to the queued task, to await its result or cancel it
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public addTask<P extends any[], R>(
+    options: TaskOptions,
+    func: TaskFunction<P, R>,
+    ...args: P
+  ): BackgroundTask<P, R>;
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public addTask(...input: unknown[]): BackgroundTask<any[]> {
+    const [options, func, args] = parseTaskInput(input);
+    for (const dependency of options.dependsOn ?? []) {
+      // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+      if (!this.tasks.includes(dependency as BackgroundTask<any[]>)) {
+        throw new Error(
+          `Dependency "${dependency.name}" must be added to the same collection first`,
+        );
+      }
+    }
+    const name = options.name ?? (func.name || 'anonymous');
+    const stub = this.options.stubs?.get(name);
+    const taskOptions: TaskOptions = {
+      ...this.options.defaults,
+      ...options,
+      // Stubs run in-process, as they usually record their calls
+      ...(stub && { name, worker: false }),
+    };
+    if (taskOptions.worker === true && this.options.workers) {
+      taskOptions.worker = this.options.workers;
+    }
+    const task = new BackgroundTask(taskOptions, stub ?? func, ...args);
+    this.options.scheduler?.enqueue(task);
+    if (this.finished && !this.closed && this.options.submit) {
+      task.request ??= this.request;
+      this.options.submit(task);
+      return task;
+    }
     this.tasks.push(task);
+    return task;
   }
 
   /**
-   * Executes all tasks sequentially.
-   * If one task fails, execution stops and the error is thrown.
+   * Adds a task registered with `defineTask`, validating its arguments against
+   * the definition's schema.
+   *
+   * @template N - Name of the task
+   * @param name - Name of the task definition
+   * @param args - Arguments for the task
+   * @param options - Options for the task, merged over the collection defaults (optional)
+   * @returns Handle to the queued task, to await its result or cancel it
+   * @throws ValidationError if the arguments do not match the schema
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
+   * @throws Error if no task is registered with this name
+   */
+  public enqueue<N extends D['name']>(
+    name: N,
+    args: TaskArgs<D, N>,
+    options: Omit<TaskOptions, 'dependsOn'> = {},
+  ): BackgroundTask<[TaskArgs<D, N>], TaskResult<D, N>> {
+    const definition = this.options.definitions?.get(name);
+    if (!definition) {
+      throw new Error(`No background task is registered as "${name}"`);
+    }
+    assertTaskArgs(definition, args);
+    return this.addTask(
+      { name, ...options },
+      definition.handler as TaskFunction<[TaskArgs<D, N>], TaskResult<D, N>>,
+      args,
+    );
+  }
+
+  /**
+   * Removes the tasks that are not due yet and neither depend on other tasks
+   * nor have dependents, so they can be held until they are due instead of
+   * keeping the collection running. They leave the scheduler's queue until then.
+   *
+   * @returns The removed tasks
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public takeDelayed(): BackgroundTask<any[]>[] {
+    const now = Date.now();
+    const delayed = this.tasks.filter(
+      (task) =>
+        task.status === 'pending' &&
+        task.runAt !== undefined &&
+        task.runAt > now &&
+        task.dependencies.length === 0 &&
+        !this.tasks.some((other) => other.dependencies.includes(task)),
+    );
+    this.tasks = this.tasks.filter((task) => !delayed.includes(task));
+    for (const task of delayed) {
+      this.options.scheduler?.remove(task);
+    }
+    return delayed;
+  }
+
+  /**
+   * Tasks that have not finished executing yet, including the one currently running.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public get pending(): BackgroundTask<any[]>[] {
+    return this.tasks.filter((task) => !this.settled.has(task));
+  }
+
+  /**
+   * Lists the tasks of the collection with their statuses.
+   *
+   * @returns A summary of every task, in the order they were added
+   */
+  public list(): TaskInfo[] {
+    return this.tasks.map((task) => task.toJSON());
+  }
+
+  /**
+   * Stops the collection from starting any further tasks.
+   * The task currently running, if any, is not interrupted.
+   */
+  public close(): void {
+    this.closed = true;
+  }
+
+  /**
+   * Removes a task that has not started yet, so it will not run. The task is
+   * skipped, and so are the tasks depending on it.
+   *
+   * @param task - The task to discard
+   * @param reason - Why the task was discarded (optional)
+   * @returns Whether the task was discarded
+   */
+  public discard(
+    task: BackgroundTaskHandle,
+    reason = 'discarded from the collection',
+  ): boolean {
+    // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+    const index = this.tasks.indexOf(task as BackgroundTask<any[]>);
+    const discarded = this.tasks[index];
+    if (!discarded || discarded.status !== 'pending') {
+      return false;
+    }
+    this.tasks.splice(index, 1);
+    this.options.scheduler?.remove(discarded);
+    discarded.skip(reason);
+    return true;
+  }
+
+  /**
+   * Discards every task that has not started yet, for example to roll back
+   * the tasks of a request that decides to fail.
+   */
+  public clear(): void {
+    for (const task of [...this.tasks]) {
+      this.discard(task);
+    }
+  }
+
+  /**
+   * Executes all tasks according to the execution mode.
+   * In `sequential` mode execution stops at the first failure and that error is thrown.
+   * In other modes every task runs and all failures are thrown together.
+   * Tasks whose dependencies did not succeed are skipped instead of run.
+   * Delayed tasks wait until they are due before taking a slot.
+   * Cancelled and skipped tasks never count as failures.
    *
    * @returns Promise that resolves when all tasks complete
-   * @throws Error if any task fails
+   * @throws BackgroundTaskError if a task fails in `sequential` mode
+   * @throws BackgroundTasksError if any task fails in other modes
    */
   public async run(): Promise<void> {
-    for (const task of this.tasks) {
+    const {
+      mode = 'sequential',
+      concurrency = Infinity,
+      hooks = {},
+      context,
+      logger,
+    } = this.options;
+    const startedAt = Date.now();
+    const start = performance.now();
+    const failFast = mode === 'sequential';
+    const limit =
+      mode === 'parallel' || mode === 'dag' ? Math.max(1, concurrency) : 1;
+    const errors: BackgroundTaskError[] = [];
+    // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+    const started = new Set<BackgroundTask<any[]>>();
+
+    // In `dag` mode tasks start out of order, as soon as their dependencies settle
+    // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+    const isReady = (task: BackgroundTask<any[]>) =>
+      mode !== 'dag' ||
+      task.dependencies.every(
+        (dependency) =>
+          dependency.status !== 'pending' && dependency.status !== 'running',
+      );
+
+    const worker = async () => {
+      while (started.size < this.tasks.length) {
+        if (this.closed || (failFast && errors.length > 0)) {
+          return;
+        }
+        const task = this.tasks.find(
+          (task) => !started.has(task) && isReady(task),
+        );
+        if (!task) {
+          const inProgress = this.pending.filter((task) => started.has(task));
+          if (inProgress.length === 0) {
+            return;
+          }
+          await Promise.race(
+            inProgress.map((task) => task.done.catch(() => {})),
+          );
+          continue;
+        }
+        started.add(task);
+        try {
+          await Promise.allSettled(
+            task.dependencies.map((dependency) => dependency.done),
+          );
+          const failed = task.dependencies.find(
+            (dependency) => dependency.status !== 'succeeded',
+          );
+          if (failed) {
+            this.options.scheduler?.remove(task);
+            task.skip(`dependency "${failed.name}" ${failed.status}`);
+            continue;
+          }
+          await this.execute(task);
+        } catch (error) {
+          if (!(error instanceof BackgroundTaskCancelledError)) {
+            errors.push(new BackgroundTaskError(error, task));
+          }
+        } finally {
+          this.settled.add(task);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(limit, this.tasks.length) }, worker),
+      );
+    } finally {
+      this.finished = true;
+      for (const task of this.pending) {
+        this.options.scheduler?.remove(task);
+        task.skip(
+          this.closed ? 'collection was closed' : 'an earlier task failed',
+        );
+      }
+    }
+
+    await invokeHook(
+      'Batch finish',
+      hooks.onBatchFinish,
+      {
+        tasks: [...this.tasks],
+        errors,
+        startedAt,
+        duration: performance.now() - start,
+        context,
+      },
+      logger,
+    );
+
+    if (failFast && errors[0]) {
+      throw errors[0];
+    }
+    if (errors.length > 0) {
+      throw new BackgroundTasksError(
+        errors,
+        this.tasks.filter((task) => task.status === 'skipped'),
+      );
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  private async execute(task: BackgroundTask<any[]>): Promise<void> {
+    const { scheduler, hooks = {}, context, logger } = this.options;
+    task.request ??= this.request;
+    if (task.runAt !== undefined && task.runAt > Date.now()) {
+      await sleep(task.runAt - Date.now(), task.signal);
+    }
+    if (task.options.key !== undefined && this.options.claimKey) {
+      const original = await this.options.claimKey(task);
+      if (original !== undefined) {
+        scheduler?.remove(task);
+        await this.deduplicate(task, original);
+        return;
+      }
+    }
+    let release = await scheduler?.acquire(task);
+    // Without a scheduler, nothing else stops tasks cancelled before they started
+    if (task.status !== 'pending') {
+      release?.();
+      throw task.error;
+    }
+    const { args } = task;
+    const startedAt = Date.now();
+    const start = performance.now();
+    let outcome: Exclude<TaskStatus, 'pending' | 'running'> = 'succeeded';
+    let error: unknown;
+
+    await invokeHook(
+      'Task start',
+      hooks.onTaskStart,
+      {
+        task,
+        args,
+        startedAt,
+        context,
+      },
+      logger,
+    );
+    try {
+      // Retries give up their slot while backing off, then wait for a new one
+      // and for their rate limits like any other task
+      await task.run(
+        hooks,
+        logger,
+        scheduler &&
+          (async (delay) => {
+            release?.();
+            release = undefined;
+            await sleep(delay, task.signal);
+            release = await scheduler.acquire(task);
+          }),
+      );
+    } catch (taskError) {
+      outcome =
+        taskError instanceof BackgroundTaskCancelledError
+          ? 'cancelled'
+          : 'failed';
+      error = taskError;
+      throw taskError;
+    } finally {
+      release?.();
+      const duration = performance.now() - start;
+      if (outcome === 'succeeded') {
+        await invokeHook(
+          'Task success',
+          hooks.onTaskSuccess,
+          {
+            task,
+            args,
+            startedAt,
+            duration,
+            context,
+          },
+          logger,
+        );
+      }
+      await invokeHook(
+        'Task finish',
+        hooks.onTaskFinish,
+        {
+          task,
+          args,
+          outcome,
+          error,
+          startedAt,
+          duration,
+          context,
+        },
+        logger,
+      );
+    }
+  }
+
+  private async deduplicate(
+    // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+    task: BackgroundTask<any[]>,
+    // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+    original: BackgroundTask<any[]> | string,
+  ): Promise<void> {
+    const { coalesceDuplicates, hooks = {}, context, logger } = this.options;
+    const originalId = typeof original === 'string' ? original : original.id;
+    if (coalesceDuplicates && typeof original !== 'string') {
+      task.coalesce(original);
+    } else {
+      task.skip(`duplicate of task "${originalId}"`);
+    }
+    await invokeHook(
+      'Task deduplicated',
+      hooks.onTaskDeduplicated,
+      {
+        task,
+        key: task.options.key ?? '',
+        originalId,
+        original: typeof original === 'string' ? undefined : original,
+        context,
+      },
+      logger,
+    );
+  }
+}
+
+/**
+ * Runs the background tasks of every request for a plugin instance and
+ * keeps track of them so they can be drained when the app shuts down.
+ * Tasks can also be added to it directly, outside of requests.
+ *
+ * @example
+ * ```typescript
+ * const app = new Elysia().use(background({ drainTimeout: 5000 }));
+ *
+ * // Wait for in-flight tasks before exiting
+ * await app.decorator.background.shutdown();
+ * ```
+ *
+ * @template D - Task definitions that can be enqueued by name
+ */
+export class BackgroundManager<D extends TaskDefinition = never> {
+  /** In-flight task collections and the promise settling once they finish */
+  private readonly running = new Map<BackgroundTasks<D>, Promise<void>>();
+  /** Pending shutdown, set once shutdown begins */
+  private stopping?: Promise<void>;
+  /** Scheduler shared by every request's task collection */
+  private readonly scheduler: Scheduler;
+  /** Backend persisting registered tasks */
+  private readonly queue: QueueBackend;
+  /** Names of the registered task functions */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow registering functions with any arguments
+  private readonly registry: Map<TaskFunction<any[]>, string>;
+  /** Task definitions that can be enqueued by name */
+  private readonly definitions = new Map<string, TaskDefinition>();
+  /** Identifiers of the persisted tasks in the queue backend */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private readonly queued = new WeakMap<BackgroundTask<any[]>, string>();
+  /** Tasks abandoned on shutdown, left in the queue backend to be replayed */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private readonly abandoned = new WeakSet<BackgroundTask<any[]>>();
+  /** Recurring jobs, started with the app */
+  public readonly jobs: JobScheduler;
+  /** Store of the tasks that failed permanently, if configured */
+  public readonly deadLetters?: DeadLetterStore;
+  /** Counters and histograms of every task, by task name */
+  public readonly taskMetrics: TaskMetrics;
+  /** Worker pool running the tasks added with `worker: true`, if configured */
+  private pool?: WorkerPool;
+  /** Tracer starting a span for every task run */
+  private readonly tracer: Tracer;
+  /** Logger receiving the task lifecycle events */
+  private readonly logger: TaskLogger;
+  /** Plugin hooks, wrapped to record the task metrics and spans */
+  private readonly hooks: TaskHooks;
+  /** Delayed tasks held until they are due, with their timers */
+  private readonly delayed = new Map<
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    BackgroundTask<any[]>,
+    ReturnType<typeof setTimeout>
+  >();
+  /** Idempotency keys held within the deduplication window, with their tasks */
+  private readonly keys = new Map<
+    string,
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    BackgroundTask<any[]>
+  >();
+
+  /**
+   * Creates a new BackgroundManager.
+   *
+   * @param options - Configuration options for error handling and shutdown
+   */
+  constructor(private readonly options: BackgroundOptions = {}) {
+    this.scheduler = new Scheduler(options.scheduler);
+    this.queue = options.queue ?? new MemoryQueue();
+    this.jobs = new JobScheduler(options.jobs ?? [], (job) => this.runJob(job));
+    this.deadLetters = options.deadLetter;
+    this.taskMetrics = new TaskMetrics(options.metrics);
+    this.pool =
+      options.workers instanceof WorkerPool || options.workers === undefined
+        ? options.workers
+        : new WorkerPool(options.workers);
+    this.tracer = options.tracer ?? new NoopTracer();
+    this.logger = new TaskLogger(options.logger, options.logLevel);
+    this.hooks = this.createHooks();
+    this.registry = new Map();
+    const { tasks = {} } = options;
+    if (Array.isArray(tasks)) {
+      for (const definition of tasks as readonly TaskDefinition[]) {
+        if (this.definitions.has(definition.name)) {
+          throw new Error(
+            `Background task "${definition.name}" is defined more than once`,
+          );
+        }
+        this.definitions.set(definition.name, definition);
+        this.registry.set(definition.handler, definition.name);
+      }
+    } else {
+      for (const [name, func] of Object.entries(tasks)) {
+        this.registry.set(func, name);
+      }
+    }
+  }
+
+  /**
+   * Worker pool running the tasks added with `worker: true`, if configured.
+   * Replaced by a new pool of the same size when the app starts again after stopping.
+   */
+  public get workers(): WorkerPool | undefined {
+    return this.pool;
+  }
+
+  /** Whether shutdown has begun and new tasks are no longer accepted */
+  public get isShuttingDown(): boolean {
+    return this.stopping !== undefined;
+  }
+
+  /** Number of task collections currently executing */
+  public get inFlight(): number {
+    return this.running.size;
+  }
+
+  /** Number of delayed tasks waiting until they are due */
+  public get scheduled(): number {
+    return this.delayed.size;
+  }
+
+  /** Snapshot of queue depth and scheduling counters across all requests */
+  public get metrics(): SchedulerMetrics {
+    return this.scheduler.metrics;
+  }
+
+  /** Whether processing is paused and tasks are kept from starting */
+  public get isPaused(): boolean {
+    return this.scheduler.paused;
+  }
+
+  /**
+   * Lists the tasks that have not finished yet across all requests,
+   * including delayed tasks waiting until they are due.
+   *
+   * @returns A summary of every unfinished task
+   */
+  public list(): TaskInfo[] {
+    return this.unfinished().map((task) => task.toJSON());
+  }
+
+  /**
+   * Looks up a task that has not finished yet.
+   *
+   * @param id - Identifier of the task
+   * @returns The task, or undefined if it is unknown or has finished
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  public find(id: string): BackgroundTask<any[]> | undefined {
+    return this.unfinished().find((task) => task.id === id);
+  }
+
+  /**
+   * Renders the task metrics and the scheduler's state in the Prometheus text
+   * exposition format.
+   *
+   * @returns The metrics as text
+   */
+  public toPrometheus(): string {
+    const { running, queued, throttled } = this.scheduler.metrics;
+    return this.taskMetrics.toPrometheus({
+      tasks_running: [running, 'Tasks currently running'],
+      tasks_queued: [queued, 'Tasks added but not started yet'],
+      tasks_throttled: [throttled, 'Tasks waiting for a rate limit'],
+      tasks_scheduled: [this.delayed.size, 'Delayed tasks not due yet'],
+    });
+  }
+
+  /**
+   * Waits until no task collection is running, including collections started
+   * while waiting. Delayed tasks that are not due yet are not waited for.
+   *
+   * @returns Promise that resolves once every running task has finished
+   */
+  public async idle(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running.values());
+    }
+  }
+
+  /**
+   * Keeps tasks from starting until `resume()` is called. Tasks already
+   * running are not interrupted, and new tasks are still accepted.
+   */
+  public pause(): void {
+    this.scheduler.pause();
+  }
+
+  /**
+   * Lets tasks start again after `pause()`.
+   */
+  public resume(): void {
+    this.scheduler.resume();
+  }
+
+  /**
+   * Creates a task collection configured with the plugin options.
+   *
+   * @param context - Context of the request creating the collection (optional)
+   * @returns A new, empty task collection
+   */
+  public createTasks(context?: Context): BackgroundTasks<D> {
+    return new BackgroundTasks<D>([], this.collectionOptions(context));
+  }
+
+  /**
+   * Adds a background task outside of a request, such as from an `onStart`
+   * hook, a WebSocket handler or a script, and starts it right away. It runs
+   * with the plugin's scheduler, retries, timeout, hooks and error handling,
+   * and registered tasks are persisted.
+   *
+   * @template P - Parameter types for the task function
+   * @template R - Result type of the task function
+   * @param func - The function to execute
+   * @param args - Arguments to pass to the function
+   * @returns Handle to the task, to await its result or cancel it
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public addTask<P extends any[], R>(
+    func: TaskFunction<P, R>,
+    ...args: P
+  ): BackgroundTask<P, R>;
+  /**
+   * Adds a background task with options outside of a request, and starts it
+   * right away. Run conditions are ignored, as there is no response.
+   *
+   * @template P - Parameter types for the task function
+   * @template R - Result type of the task function
+   * @param options - Options for the task, merged over the plugin defaults
+   * @param func - The function to execute
+   * @param args - Arguments to pass to the function
+   * @returns Handle to the task, to await its result or cancel it
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public addTask<P extends any[], R>(
+    options: Omit<TaskOptions, 'dependsOn'>,
+    func: TaskFunction<P, R>,
+    ...args: P
+  ): BackgroundTask<P, R>;
+  // biome-ignore lint/suspicious/noExplicitAny: Allow adding tasks with any arguments
+  public addTask(...input: unknown[]): BackgroundTask<any[]> {
+    const [options, func, args] = parseTaskInput(input);
+    const backgroundTasks = this.createTasks();
+    const task = backgroundTasks.addTask(options, func, ...args);
+    this.dispatch(backgroundTasks);
+    return task;
+  }
+
+  /**
+   * Adds a task registered with `defineTask` outside of a request, validating
+   * its arguments against the definition's schema, and starts it right away.
+   *
+   * @template N - Name of the task
+   * @param name - Name of the task definition
+   * @param args - Arguments for the task
+   * @param options - Options for the task, merged over the plugin defaults (optional)
+   * @returns Handle to the task, to await its result or cancel it
+   * @throws ValidationError if the arguments do not match the schema
+   * @throws BackgroundQueueFullError if the scheduler's queue is full
+   * @throws Error if no task is registered with this name
+   */
+  public enqueue<N extends D['name']>(
+    name: N,
+    args: TaskArgs<D, N>,
+    options: Omit<TaskOptions, 'dependsOn'> = {},
+  ): BackgroundTask<[TaskArgs<D, N>], TaskResult<D, N>> {
+    const backgroundTasks = this.createTasks();
+    const task = backgroundTasks.enqueue(name, args, options);
+    this.dispatch(backgroundTasks);
+    return task;
+  }
+
+  /**
+   * Stores the registered tasks of a collection in the queue backend,
+   * so they are replayed on startup if the process stops before they complete.
+   * Tasks with dependencies are not persisted.
+   *
+   * @param backgroundTasks - The task collection to persist
+   * @returns Promise that resolves once every registered task is stored
+   */
+  public async persist(backgroundTasks: BackgroundTasks<D>): Promise<void> {
+    for (const task of backgroundTasks.pending) {
+      const name = this.registry.get(task.func);
+      if (
+        name === undefined ||
+        task.dependencies.length > 0 ||
+        this.queued.has(task)
+      ) {
+        continue;
+      }
+      await this.queue.add({
+        id: task.id,
+        name,
+        args: task.args,
+        createdAt: task.createdAt,
+        runAt: task.runAt,
+        options: getQueuedOptions(task, name),
+      });
+      this.track(task, task.id);
+    }
+  }
+
+  /**
+   * Starts accepting tasks, replays the unfinished ones and schedules the
+   * recurring jobs. Called when the app starts. After a shutdown, waits for it
+   * to finish and replaces the terminated worker pool, so the app can be
+   * started again.
+   *
+   * @returns Promise that resolves once the unfinished tasks are dispatched
+   */
+  public async start(): Promise<void> {
+    if (this.stopping) {
+      await this.stopping;
+      this.stopping = undefined;
+      if (this.pool) {
+        this.pool = new WorkerPool({ size: this.pool.size });
+      }
+    }
+    await this.replay();
+    this.jobs.start();
+  }
+
+  /**
+   * Runs the tasks left unfinished in the queue backend, for example after a crash.
+   * Called when the app starts. Tasks whose name is no longer registered are
+   * left in the queue.
+   *
+   * @returns Promise that resolves once the unfinished tasks are dispatched
+   */
+  public async replay(): Promise<void> {
+    for (const entry of await this.queue.pending()) {
+      const func = this.findFunction(entry.name);
+      if (!func) {
+        this.logger.log(
+          'error',
+          `Cannot replay unregistered task "${entry.name}"`,
+          { taskId: entry.id, taskName: entry.name },
+        );
+        continue;
+      }
+      const backgroundTasks = this.createTasks();
       try {
-        await task.run();
+        this.track(
+          backgroundTasks.addTask(
+            { ...entry.options, runAt: entry.runAt },
+            func,
+            ...entry.args,
+          ),
+          entry.id,
+        );
       } catch (error) {
-        throw new BackgroundTaskError(error, task);
+        await this.reportError(error);
+        continue;
       }
+      this.dispatch(backgroundTasks);
+    }
+  }
+
+  /**
+   * Runs a task recorded in the dead-letter store again, with its original
+   * arguments and options, and removes it from the store. Only registered
+   * tasks can be re-enqueued.
+   *
+   * @param id - Identifier of the failed task
+   * @returns Handle to the new task
+   * @throws Error if no dead-letter store is configured, the task is not stored or its name is not registered
+   */
+  public async requeue(id: string): Promise<BackgroundTaskHandle> {
+    if (!this.deadLetters) {
+      throw new Error('No dead-letter store is configured');
+    }
+    const entry = await this.deadLetters.get(id);
+    if (!entry) {
+      throw new Error(`No dead-lettered task with id "${id}"`);
+    }
+    const func = this.findFunction(entry.registeredName ?? entry.name);
+    if (!func) {
+      throw new Error(`Cannot re-enqueue unregistered task "${entry.name}"`);
+    }
+
+    const backgroundTasks = this.createTasks();
+    const task = backgroundTasks.addTask(
+      { ...entry.options, name: entry.name, metadata: entry.metadata },
+      func,
+      ...entry.args,
+    );
+    task.request = entry.request;
+    await this.persist(backgroundTasks);
+    await this.deadLetters.delete(id);
+    this.dispatch(backgroundTasks);
+    return task;
+  }
+
+  /**
+   * Starts executing a task collection without waiting for it.
+   * Tasks whose run condition does not hold for the response status are discarded.
+   * Registered tasks not persisted yet, such as those of a handler that threw,
+   * are persisted without waiting for the queue backend.
+   * Delayed tasks are held with timers and run on their own once they are due.
+   * Once shutdown has begun, its tasks are abandoned instead.
+   *
+   * @param backgroundTasks - The task collection to execute
+   * @param context - Context of the request that created the collection (optional)
+   */
+  public dispatch(
+    backgroundTasks: BackgroundTasks<D>,
+    context?: Context,
+  ): void {
+    if (context) {
+      const status = getResponseStatus(context);
+      for (const task of backgroundTasks.pending) {
+        const { when = 'always' } = task.options;
+        if (
+          !meetsCondition(when, status) &&
+          backgroundTasks.discard(task, `response status was ${status}`)
+        ) {
+          this.logger.log('debug', 'Task discarded', {
+            ...this.fields(task),
+            status,
+          });
+        }
+      }
+    }
+    this.persist(backgroundTasks).catch((error) => this.reportError(error));
+
+    if (this.stopping) {
+      const { pending } = backgroundTasks;
+      backgroundTasks.close();
+      if (pending.length > 0) {
+        void this.abandon(pending);
+      }
+      return;
+    }
+
+    const { requestContext } = this.options;
+    if (requestContext && context) {
+      backgroundTasks.request = createRequestSnapshot(
+        context,
+        requestContext === true ? {} : requestContext,
+      );
+    }
+
+    for (const task of backgroundTasks.pending) {
+      if (task.status === 'pending') {
+        this.taskMetrics.increment('enqueued', task.name);
+        this.logger.log('debug', 'Task enqueued', this.fields(task));
+      }
+    }
+    for (const task of backgroundTasks.takeDelayed()) {
+      task.request ??= backgroundTasks.request;
+      this.schedule(task, context);
+    }
+    this.run(backgroundTasks);
+  }
+
+  /**
+   * Stops accepting new tasks and waits for in-flight tasks to finish,
+   * up to `drainTimeout`. Tasks still unfinished are then cancelled and abandoned.
+   * Recurring jobs stop being scheduled, and delayed tasks that are not due yet
+   * are abandoned right away. The worker pool is terminated last.
+   * Calling it more than once returns the same promise.
+   *
+   * @returns Promise that resolves once tasks are drained or abandoned
+   */
+  public shutdown(): Promise<void> {
+    this.stopping ??= this.drain().finally(() => this.pool?.terminate());
+    return this.stopping;
+  }
+
+  /**
+   * Shuts down gracefully when the process receives one of the given signals:
+   * the server is stopped, in-flight tasks are drained and the signal is
+   * re-raised. Errors while stopping are reported to `onError`.
+   *
+   * @param signals - Process signals that trigger the shutdown
+   * @param stop - Stops the server
+   * @returns Function removing the signal listeners
+   */
+  public handleSignals(
+    signals: readonly NodeJS.Signals[],
+    stop: () => unknown,
+  ): () => void {
+    const listeners = signals.map((signal) => {
+      const listener = async () => {
+        try {
+          await stop();
+          await this.shutdown();
+        } catch (error) {
+          await this.reportError(error);
+        }
+        process.kill(process.pid, signal);
+      };
+      process.once(signal, listener);
+      return { signal, listener };
+    });
+    return () => {
+      for (const { signal, listener } of listeners) {
+        process.off(signal, listener);
+      }
+    };
+  }
+
+  private createHooks(): TaskHooks {
+    const { onRetry, onTaskStart, onTaskFinish, onTaskDeduplicated } =
+      this.options;
+    return {
+      ...this.options,
+      onRetry: async (event) => {
+        this.taskMetrics.increment('retried', event.task.name);
+        if (event.error instanceof BackgroundTaskTimeoutError) {
+          this.taskMetrics.increment('timedOut', event.task.name);
+        }
+        this.logger.log('warn', 'Task attempt failed, retrying', {
+          ...this.fields(event.task),
+          attempt: event.attempt,
+          delay: event.delay,
+          err: event.error,
+        });
+        event.task.span?.addEvent('retry', {
+          'background.task.attempt': event.attempt,
+          'background.task.retry_delay': event.delay,
+          'exception.message':
+            event.error instanceof Error
+              ? event.error.message
+              : String(event.error),
+        });
+        await onRetry?.(event);
+      },
+      onTaskStart: async (event) => {
+        const { task, startedAt, context } = event;
+        task.span = this.startSpan(task, context);
+        this.logger.log('debug', 'Task started', this.fields(task));
+        // Delayed tasks only start waiting once they are due
+        const dueAt = Math.max(task.createdAt, task.runAt ?? 0);
+        this.taskMetrics.increment('started', task.name);
+        this.taskMetrics.observe(
+          'queueWait',
+          task.name,
+          Math.max(0, startedAt - dueAt) / 1000,
+        );
+        await onTaskStart?.(event);
+      },
+      onTaskFinish: async (event) => {
+        const { task, outcome, error, duration } = event;
+        if (outcome === 'succeeded' || outcome === 'failed') {
+          this.taskMetrics.increment(outcome, task.name);
+        }
+        if (error instanceof BackgroundTaskTimeoutError) {
+          this.taskMetrics.increment('timedOut', task.name);
+        }
+        this.taskMetrics.observe('duration', task.name, duration / 1000);
+        task.span?.setAttribute('background.task.attempt', task.attempts);
+        task.span?.setAttribute('background.task.outcome', outcome);
+        if (outcome === 'failed') {
+          task.span?.recordException(error);
+          task.span?.setStatus({
+            code: 'error',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        } else if (outcome === 'succeeded') {
+          task.span?.setStatus({ code: 'ok' });
+        }
+        task.span?.end();
+        if (outcome === 'succeeded' || outcome === 'cancelled') {
+          this.logger.log(
+            'info',
+            outcome === 'succeeded' ? 'Task succeeded' : 'Task cancelled',
+            { ...this.fields(task), attempt: task.attempts, duration },
+          );
+        }
+        await onTaskFinish?.(event);
+      },
+      onTaskDeduplicated: async (event) => {
+        this.logger.log('debug', 'Task deduplicated', {
+          ...this.fields(event.task),
+          key: event.key,
+          originalId: event.originalId,
+        });
+        await onTaskDeduplicated?.(event);
+      },
+    };
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private fields(task: BackgroundTask<any[]>): LogFields {
+    return {
+      taskId: task.id,
+      taskName: task.name,
+      requestId: task.request?.id,
+    };
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private startSpan(task: BackgroundTask<any[]>, context?: Context): Span {
+    const headers = context?.request.headers;
+    const parent = headers
+      ? this.tracer.extract
+        ? this.tracer.extract(headers)
+        : parseTraceparent(headers.get('traceparent'))
+      : undefined;
+    return this.tracer.startSpan(`background ${task.name}`, {
+      parent,
+      attributes: {
+        'background.task.id': task.id,
+        'background.task.name': task.name,
+        ...(task.request && { 'background.request.id': task.request.id }),
+      },
+    });
+  }
+
+  /**
+   * Returns the options of a new task collection, from the plugin options.
+   *
+   * @param context - Context of the request creating the collection (optional)
+   * @returns Options for the collection
+   */
+  protected collectionOptions(context?: Context): BackgroundTasksOptions {
+    return {
+      ...this.options.execution,
+      defaults: {
+        retry: this.options.retry,
+        timeout: this.options.timeout,
+        when: this.options.when,
+      },
+      hooks: this.hooks,
+      scheduler: this.scheduler,
+      context,
+      definitions: this.definitions,
+      claimKey: (task) => this.claimKey(task),
+      coalesceDuplicates: this.options.deduplication?.strategy === 'coalesce',
+      logger: this.logger,
+      submit: (task) =>
+        this.dispatch(
+          new BackgroundTasks<D>([task], this.collectionOptions(context)),
+        ),
+      workers: this.workers,
+    };
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private unfinished(): BackgroundTask<any[]>[] {
+    return [
+      ...[...this.running.keys()].flatMap(
+        (backgroundTasks) => backgroundTasks.pending,
+      ),
+      ...this.delayed.keys(),
+    ].filter((task) => task.status === 'pending' || task.status === 'running');
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Allow registering functions with any arguments
+  private findFunction(name: string): TaskFunction<any[]> | undefined {
+    for (const [func, registered] of this.registry) {
+      if (registered === name) {
+        return func;
+      }
+    }
+    return undefined;
+  }
+
+  private run(backgroundTasks: BackgroundTasks<D>): Promise<void> {
+    const promise = backgroundTasks
+      .run()
+      .catch((error) => this.handleError(error))
+      .finally(() => {
+        this.running.delete(backgroundTasks);
+      });
+    this.running.set(backgroundTasks, promise);
+    return promise;
+  }
+
+  private async runJob(job: RecurringJob): Promise<void> {
+    const { cron, interval, handler, ...options } = job;
+    const backgroundTasks = new BackgroundTasks<D>(
+      [],
+      this.collectionOptions(),
+    );
+    try {
+      backgroundTasks.addTask(options, handler);
+    } catch (error) {
+      await this.reportError(error);
+      return;
+    }
+    this.taskMetrics.increment('enqueued', job.name);
+    for (const task of backgroundTasks.pending) {
+      this.logger.log('debug', 'Task enqueued', this.fields(task));
+    }
+    await this.run(backgroundTasks);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private schedule(task: BackgroundTask<any[]>, context?: Context): void {
+    const onAbort = () => {
+      clearTimeout(this.delayed.get(task));
+      this.delayed.delete(task);
+    };
+    const timer = setTimeout(
+      () => {
+        task.signal.removeEventListener('abort', onAbort);
+        this.delayed.delete(task);
+        // Delays longer than timers support are waited out in several steps
+        if ((task.runAt ?? 0) > Date.now()) {
+          this.schedule(task, context);
+          return;
+        }
+        try {
+          this.scheduler.enqueue(task);
+        } catch (error) {
+          task.skip('the queue was full when it was due');
+          void this.reportError(new BackgroundTaskError(error, task));
+          return;
+        }
+        this.run(
+          new BackgroundTasks<D>([task], this.collectionOptions(context)),
+        );
+      },
+      Math.min((task.runAt ?? 0) - Date.now(), MAX_TIMER_DELAY),
+    );
+    this.delayed.set(task, timer);
+    task.signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  private async claimKey(
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+    task: BackgroundTask<any[]>,
+    // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  ): Promise<BackgroundTask<any[]> | string | undefined> {
+    const { key } = task.options;
+    if (key === undefined) {
+      return undefined;
+    }
+    const window = this.options.deduplication?.window ?? 60_000;
+    const holder = this.keys.get(key);
+    if (holder && holder !== task) {
+      return holder;
+    }
+    // Replayed tasks claim keys under their persisted id, as before the restart
+    const id = this.queued.get(task) ?? task.id;
+    const claimed = await this.queue.claim?.(key, id, window);
+    // Another task of this process may have claimed the key in the meantime
+    const current = this.keys.get(key);
+    if (current && current !== task) {
+      return current;
+    }
+    if (claimed !== undefined && claimed !== id) {
+      return claimed;
+    }
+    this.keys.set(key, task);
+    setTimeout(() => {
+      if (this.keys.get(key) === task) {
+        this.keys.delete(key);
+      }
+    }, window).unref();
+    return undefined;
+  }
+
+  private async drain(): Promise<void> {
+    this.jobs.stop();
+    const delayed = [...this.delayed.keys()];
+    if (delayed.length > 0) {
+      await this.abandon(delayed);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const drained = await Promise.race([
+      Promise.all(this.running.values()).then(() => true),
+      new Promise<false>((resolve) => {
+        timer = setTimeout(
+          () => resolve(false),
+          this.options.drainTimeout ?? 10_000,
+        );
+      }),
+    ]);
+    clearTimeout(timer);
+    if (drained) {
+      return;
+    }
+
+    const abandoned = [...this.running.keys()].flatMap((backgroundTasks) => {
+      backgroundTasks.close();
+      return backgroundTasks.pending;
+    });
+    this.running.clear();
+    await this.abandon(abandoned);
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private async abandon(tasks: BackgroundTask<any[]>[]): Promise<void> {
+    for (const task of tasks) {
+      this.abandoned.add(task);
+      task.cancel('shutdown');
+    }
+    if (this.options.onAbandon) {
+      await invokeHook(
+        'Abandon',
+        this.options.onAbandon,
+        { tasks },
+        this.logger,
+      );
+    } else {
+      this.logger.log(
+        'error',
+        `Abandoned ${tasks.length} task(s) on shutdown`,
+        { taskIds: tasks.map((task) => task.id) },
+      );
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private track(task: BackgroundTask<any[]>, id: string): void {
+    this.queued.set(task, id);
+    const complete = async () => {
+      if (this.abandoned.has(task)) {
+        return;
+      }
+      try {
+        await this.queue.complete(id);
+      } catch (error) {
+        this.logger.log('error', 'Failed to complete queued task', {
+          ...this.fields(task),
+          err: error,
+        });
+      }
+    };
+    task.done.then(complete, complete);
+  }
+
+  private async handleError(error: unknown): Promise<void> {
+    const errors =
+      error instanceof BackgroundTasksError ? error.errors : [error];
+    for (const item of errors) {
+      if (
+        item instanceof BackgroundTaskError &&
+        item.task.status === 'failed'
+      ) {
+        await this.recordDeadLetter(item.task);
+      }
+      await this.reportError(item);
+    }
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  private async recordDeadLetter(task: BackgroundTask<any[]>): Promise<void> {
+    if (!this.deadLetters) {
+      return;
+    }
+    try {
+      await this.deadLetters.add(
+        createDeadLetter(task, this.registry.get(task.func)),
+      );
+    } catch (error) {
+      this.logger.log('error', 'Failed to record dead letter', {
+        ...this.fields(task),
+        err: error,
+      });
+    }
+  }
+
+  private async reportError(error: unknown): Promise<void> {
+    // The console is only a fallback for apps without an error handler
+    if (this.options.logger || !this.options.onError) {
+      this.logFailure(error);
+    }
+    if (this.options.onError) {
+      try {
+        const result = this.options.onError(
+          error instanceof BackgroundTaskError
+            ? { error: error.error, task: error.task, request: error.request }
+            : { error },
+        );
+        if (result instanceof Promise) {
+          await result;
+        }
+      } catch (handlerError) {
+        // If the onError handler itself fails, log that error too
+        this.logger.log('error', 'Error handler failed', {
+          ...(error instanceof BackgroundTaskError && this.fields(error.task)),
+          err: handlerError,
+        });
+      }
+    }
+  }
+
+  private logFailure(error: unknown): void {
+    if (error instanceof BackgroundTaskError) {
+      const { task } = error;
+      this.logger.log('error', 'Task failed', {
+        ...this.fields(task),
+        attempt: task.attempts,
+        duration:
+          task.startedAt !== undefined && task.finishedAt !== undefined
+            ? task.finishedAt - task.startedAt
+            : undefined,
+        err: error.error,
+      });
+    } else {
+      this.logger.log('error', 'Task failed', { err: error });
     }
   }
 }
@@ -211,8 +2561,10 @@ export class BackgroundTasks implements IBackgroundTask {
 /**
  * Creates an Elysia plugin for background task processing.
  * Tasks execute sequentially after the HTTP response is sent.
+ * In-flight tasks are drained when the app stops.
  *
- * @param options - Configuration options for error handling
+ * @param options - Configuration options for error handling and shutdown
+ * @param manager - Manager running the tasks, such as the one of the testing helpers (optional)
  * @returns Elysia plugin with background task functionality
  *
  * @example
@@ -243,39 +2595,40 @@ export class BackgroundTasks implements IBackgroundTask {
  *   });
  * ```
  */
-export function background(options?: BackgroundOptions) {
+export function background<const D extends readonly TaskDefinition[] = []>(
+  options?: BackgroundOptions<D>,
+  manager: BackgroundManager<D[number]> = new BackgroundManager<D[number]>(
+    options,
+  ),
+) {
+  let removeSignalListeners: (() => void) | undefined;
+
   return new Elysia({
     name: 'elysia-background',
     seed: options,
   })
-    .derive(() => ({
-      backgroundTasks: new BackgroundTasks(),
+    .decorate('background', manager)
+    .derive((context) => ({
+      backgroundTasks: manager.createTasks(context),
     }))
-    .onAfterResponse(({ backgroundTasks }) => {
-      backgroundTasks.run().catch(async (error) => {
-        if (options?.onError) {
-          try {
-            const result = options.onError(
-              error instanceof BackgroundTaskError
-                ? { error: error.error, task: error.task }
-                : { error },
-            );
-            if (result instanceof Promise) {
-              await result;
-            }
-          } catch (handlerError) {
-            // If the onError handler itself fails, log that error too
-            console.error(
-              '[elysia-background] Error handler failed:',
-              handlerError,
-            );
-          }
-        } else {
-          const actualError =
-            error instanceof BackgroundTaskError ? error.error : error;
-          console.error('[elysia-background] Task failed:', actualError);
-        }
-      });
+    .onAfterHandle(async (context) => {
+      await manager.persist(context.backgroundTasks);
+    })
+    .onAfterResponse((context) => {
+      manager.dispatch(context.backgroundTasks, context);
+    })
+    .onStart(async (app) => {
+      await manager.start();
+      removeSignalListeners?.();
+      removeSignalListeners = manager.handleSignals(
+        options?.signals ?? [],
+        () => app.stop(),
+      );
+    })
+    .onStop(() => {
+      removeSignalListeners?.();
+      removeSignalListeners = undefined;
+      return manager.shutdown();
     })
     .as('scoped');
 }
@@ -0,0 +1,169 @@
+import { CronExpression } from './cron';
+import type { TaskOptions } from './index';
+import { MAX_TIMER_DELAY } from './utils';
+
+/**
+ * A job run on a recurring schedule, either a cron expression or a fixed interval.
+ * Each run executes as a background task, with the plugin's retries, timeout and hooks.
+ */
+export type RecurringJob = Pick<
+  TaskOptions,
+  'metadata' | 'retry' | 'timeout'
+> & {
+  /** Unique name of the job, used as the name of its tasks */
+  name: string;
+  /** Cron expression of the schedule, evaluated in local time */
+  cron?: string;
+  /** Time in milliseconds between runs */
+  interval?: number;
+  /** Function executed on every run */
+  handler: () => unknown;
+};
+
+/**
+ * Summary of a recurring job, as returned by `JobScheduler.list()`.
+ */
+export type JobInfo = {
+  /** Name of the job */
+  name: string;
+  /** Whether a run is in progress */
+  running: boolean;
+  /** When the job runs next, if the scheduler is started */
+  nextRunAt?: number;
+};
+
+type Schedule = {
+  job: RecurringJob;
+  cron?: CronExpression;
+  timer?: ReturnType<typeof setTimeout>;
+  nextRunAt?: number;
+  /** Run in progress, if any */
+  active?: Promise<void>;
+};
+
+/**
+ * Runs recurring jobs on their schedules. A run that is due while the previous
+ * run of the same job is still in progress is skipped, so runs never overlap.
+ *
+ * @example
+ * ```typescript
+ * const jobs = new JobScheduler(
+ *   [{ name: 'cleanup', cron: '0 * * * *', handler: cleanup }],
+ *   async (job) => {
+ *     await job.handler();
+ *   },
+ * );
+ *
+ * jobs.start();
+ * ```
+ */
+export class JobScheduler {
+  /** Schedules of the jobs, by name */
+  private readonly schedules = new Map<string, Schedule>();
+  /** Whether the jobs are scheduled */
+  private started = false;
+
+  /**
+   * Creates a new JobScheduler.
+   *
+   * @param jobs - The recurring jobs
+   * @param execute - Runs a job, resolving once the run has finished
+   * @throws Error if a job has no valid schedule or its name is not unique
+   */
+  constructor(
+    jobs: RecurringJob[],
+    private readonly execute: (job: RecurringJob) => Promise<void>,
+  ) {
+    for (const job of jobs) {
+      if (this.schedules.has(job.name)) {
+        throw new Error(
+          `Recurring job "${job.name}" is defined more than once`,
+        );
+      }
+      if ((job.cron === undefined) === (job.interval === undefined)) {
+        throw new Error(
+          `Recurring job "${job.name}" needs either a cron expression or an interval`,
+        );
+      }
+      if (job.interval !== undefined && !(job.interval > 0)) {
+        throw new Error(
+          `Recurring job "${job.name}" needs a positive interval`,
+        );
+      }
+      this.schedules.set(job.name, {
+        job,
+        cron: job.cron === undefined ? undefined : new CronExpression(job.cron),
+      });
+    }
+  }
+
+  /**
+   * Schedules every job. Has no effect if the jobs are already scheduled.
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    for (const schedule of this.schedules.values()) {
+      this.schedule(schedule, Date.now());
+    }
+  }
+
+  /**
+   * Stops scheduling further runs. Runs in progress are not interrupted.
+   */
+  public stop(): void {
+    this.started = false;
+    for (const schedule of this.schedules.values()) {
+      clearTimeout(schedule.timer);
+      schedule.timer = undefined;
+      schedule.nextRunAt = undefined;
+    }
+  }
+
+  /**
+   * Lists the jobs with their state.
+   *
+   * @returns A summary of every job, in the order they were defined
+   */
+  public list(): JobInfo[] {
+    return [...this.schedules.values()].map(({ job, active, nextRunAt }) => ({
+      name: job.name,
+      running: active !== undefined,
+      nextRunAt,
+    }));
+  }
+
+  private schedule(schedule: Schedule, from: number): void {
+    const nextRunAt =
+      schedule.cron?.next(new Date(from)).getTime() ??
+      from + (schedule.job.interval ?? 0);
+    schedule.nextRunAt = nextRunAt;
+    this.wait(schedule, nextRunAt);
+  }
+
+  private wait(schedule: Schedule, nextRunAt: number): void {
+    schedule.timer = setTimeout(
+      () => {
+        // Delays longer than timers support are waited out in several steps
+        if (nextRunAt > Date.now()) {
+          this.wait(schedule, nextRunAt);
+          return;
+        }
+        this.schedule(schedule, Date.now());
+        this.fire(schedule);
+      },
+      Math.min(nextRunAt - Date.now(), MAX_TIMER_DELAY),
+    );
+  }
+
+  private fire(schedule: Schedule): void {
+    if (schedule.active) {
+      return;
+    }
+    schedule.active = this.execute(schedule.job).finally(() => {
+      schedule.active = undefined;
+    });
+  }
+}
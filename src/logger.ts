@@ -0,0 +1,110 @@
+/**
+ * Severity of a log message. `silent` disables logging.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields logged with a message.
+ */
+export type LogFields = {
+  /** Identifier of the task */
+  taskId?: string;
+  /** Name of the task */
+  taskName?: string;
+  /** Identifier of the request that added the task, when `requestContext` is enabled */
+  requestId?: string;
+  /** Number of the attempt, starting at 1 */
+  attempt?: number;
+  /** Time the task took to run, in milliseconds */
+  duration?: number;
+  /** The error, if any */
+  err?: unknown;
+  [field: string]: unknown;
+};
+
+/**
+ * Logger with levels, taking structured fields followed by a message, as
+ * `pino` and compatible loggers do.
+ */
+export interface Logger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  silent: Infinity,
+};
+
+const writeConsole =
+  (level: Exclude<LogLevel, 'silent'>) =>
+  (fields: LogFields, message: string): void => {
+    if (fields.err === undefined) {
+      console[level](`[elysia-background] ${message}`);
+    } else {
+      console[level](`[elysia-background] ${message}:`, fields.err);
+    }
+  };
+
+/**
+ * Logger writing messages to the console, followed by their error if any.
+ * Other fields are not printed.
+ */
+export const consoleLogger: Logger = {
+  debug: writeConsole('debug'),
+  info: writeConsole('info'),
+  warn: writeConsole('warn'),
+  error: writeConsole('error'),
+};
+
+/**
+ * Logger filtering messages below a minimum level before passing them on.
+ *
+ * @example
+ * ```typescript
+ * const logger = new TaskLogger(pino(), 'debug');
+ * logger.log('info', 'Task succeeded', { taskId, taskName, duration });
+ * ```
+ */
+export class TaskLogger {
+  /** Minimum level of the messages passed on */
+  private readonly level: number;
+
+  /**
+   * Creates a new TaskLogger.
+   *
+   * @param logger - Where messages are passed on to (optional)
+   * @param level - Minimum level of the messages passed on. Defaults to `info`, or `error` for the console
+   */
+  constructor(
+    private readonly logger: Logger = consoleLogger,
+    level?: LogLevel,
+  ) {
+    this.level = LEVELS[level ?? (logger === consoleLogger ? 'error' : 'info')];
+  }
+
+  /**
+   * Logs a message if its level is enabled.
+   *
+   * @param level - Severity of the message
+   * @param message - The message
+   * @param fields - Structured fields logged with the message (optional)
+   */
+  public log(
+    level: Exclude<LogLevel, 'silent'>,
+    message: string,
+    fields: LogFields = {},
+  ): void {
+    if (LEVELS[level] >= this.level) {
+      this.logger[level](fields, message);
+    }
+  }
+}
+
+/** Logger used by task collections created without one */
+export const defaultLogger = new TaskLogger();
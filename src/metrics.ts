@@ -0,0 +1,291 @@
+import { Elysia } from 'elysia';
+
+import type { BackgroundManager } from './index';
+
+/**
+ * Counters kept per task name.
+ */
+export type TaskCounter =
+  | 'enqueued'
+  | 'started'
+  | 'succeeded'
+  | 'failed'
+  | 'retried'
+  | 'timedOut';
+
+/**
+ * Histograms kept per task name, in seconds.
+ */
+export type TaskHistogram = 'duration' | 'queueWait';
+
+/**
+ * Configuration options for task metrics.
+ */
+export type MetricsOptions = {
+  /**
+   * Prefix of the metric names in the text format.
+   * @default 'background'
+   */
+  prefix?: string;
+  /**
+   * Upper bounds in seconds of the histogram buckets.
+   * @default [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+   */
+  buckets?: number[];
+};
+
+/**
+ * Snapshot of a histogram for one task name.
+ */
+export type HistogramSnapshot = {
+  /** Cumulative number of observations per upper bound, as in the text format */
+  buckets: Record<string, number>;
+  /** Sum of the observations */
+  sum: number;
+  /** Number of observations */
+  count: number;
+};
+
+/**
+ * Snapshot of the task metrics, by task name.
+ */
+export type TaskMetricsSnapshot = Record<TaskCounter, Record<string, number>> &
+  Record<TaskHistogram, Record<string, HistogramSnapshot>>;
+
+type Histogram = {
+  /** Observations per bucket, not cumulative, with a last bucket for `+Inf` */
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const COUNTERS: Record<TaskCounter, [name: string, help: string]> = {
+  enqueued: ['tasks_enqueued_total', 'Tasks added to be run'],
+  started: ['tasks_started_total', 'Tasks that started running'],
+  succeeded: ['tasks_succeeded_total', 'Tasks that succeeded'],
+  failed: ['tasks_failed_total', 'Tasks that failed after every attempt'],
+  retried: ['tasks_retried_total', 'Failed attempts that were retried'],
+  timedOut: ['tasks_timed_out_total', 'Attempts that exceeded their timeout'],
+};
+
+const HISTOGRAMS: Record<TaskHistogram, [name: string, help: string]> = {
+  duration: ['task_duration_seconds', 'Time tasks took to run'],
+  queueWait: [
+    'task_queue_wait_seconds',
+    'Time tasks waited to start once they were due',
+  ],
+};
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatBound = (bound: number) =>
+  bound === Infinity ? '+Inf' : String(bound);
+
+/**
+ * Counters and histograms of background tasks, labelled by task name,
+ * rendered in the Prometheus text format without any dependency.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new TaskMetrics();
+ * metrics.increment('started', 'sendEmail');
+ * metrics.observe('duration', 'sendEmail', 0.42);
+ *
+ * metrics.toPrometheus();
+ * // # TYPE background_tasks_started_total counter
+ * // background_tasks_started_total{task="sendEmail"} 1
+ * // ...
+ * ```
+ */
+export class TaskMetrics {
+  /** Counter values, by counter and task name */
+  private readonly counters = new Map<TaskCounter, Map<string, number>>();
+  /** Histograms, by histogram and task name */
+  private readonly histograms = new Map<
+    TaskHistogram,
+    Map<string, Histogram>
+  >();
+  /** Upper bounds of the histogram buckets, ending with `Infinity` */
+  private readonly bounds: number[];
+  /** Prefix of the metric names */
+  private readonly prefix: string;
+
+  /**
+   * Creates a new TaskMetrics.
+   *
+   * @param options - Configuration options for names and histogram buckets
+   */
+  constructor(options: MetricsOptions = {}) {
+    this.prefix = options.prefix ?? 'background';
+    this.bounds = [
+      ...[...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b),
+      Infinity,
+    ];
+  }
+
+  /**
+   * Increments a counter.
+   *
+   * @param counter - The counter to increment
+   * @param task - Name of the task
+   */
+  public increment(counter: TaskCounter, task: string): void {
+    let values = this.counters.get(counter);
+    if (!values) {
+      values = new Map();
+      this.counters.set(counter, values);
+    }
+    values.set(task, (values.get(task) ?? 0) + 1);
+  }
+
+  /**
+   * Records an observation in a histogram.
+   *
+   * @param histogram - The histogram to record in
+   * @param task - Name of the task
+   * @param seconds - The observed time in seconds
+   */
+  public observe(
+    histogram: TaskHistogram,
+    task: string,
+    seconds: number,
+  ): void {
+    let values = this.histograms.get(histogram);
+    if (!values) {
+      values = new Map();
+      this.histograms.set(histogram, values);
+    }
+    let value = values.get(task);
+    if (!value) {
+      value = { counts: this.bounds.map(() => 0), sum: 0, count: 0 };
+      values.set(task, value);
+    }
+    const index = this.bounds.findIndex((bound) => seconds <= bound);
+    value.counts[index] = (value.counts[index] ?? 0) + 1;
+    value.sum += seconds;
+    value.count++;
+  }
+
+  /**
+   * Returns the current values of every counter and histogram.
+   *
+   * @returns The metrics, by task name
+   */
+  public snapshot(): TaskMetricsSnapshot {
+    const snapshot = {} as TaskMetricsSnapshot;
+    for (const counter of Object.keys(COUNTERS) as TaskCounter[]) {
+      snapshot[counter] = Object.fromEntries(this.counters.get(counter) ?? []);
+    }
+    for (const histogram of Object.keys(HISTOGRAMS) as TaskHistogram[]) {
+      snapshot[histogram] = Object.fromEntries(
+        [...(this.histograms.get(histogram) ?? [])].map(([task, value]) => [
+          task,
+          {
+            buckets: Object.fromEntries(
+              this.cumulative(value).map((count, i) => [
+                // biome-ignore lint/style/noNonNullAssertion: One count per bound
+                formatBound(this.bounds[i]!),
+                count,
+              ]),
+            ),
+            sum: value.sum,
+            count: value.count,
+          },
+        ]),
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format.
+   *
+   * @param gauges - Additional gauges to render, by name without the prefix, with their help text
+   * @returns The metrics as text
+   */
+  public toPrometheus(
+    gauges: Record<string, [value: number, help: string]> = {},
+  ): string {
+    const lines: string[] = [];
+    for (const [name, [value, help]] of Object.entries(gauges)) {
+      const metric = `${this.prefix}_${name}`;
+      lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} gauge`);
+      lines.push(`${metric} ${value}`);
+    }
+    for (const [counter, [name, help]] of Object.entries(COUNTERS)) {
+      const metric = `${this.prefix}_${name}`;
+      lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} counter`);
+      for (const [task, value] of this.counters.get(counter as TaskCounter) ??
+        []) {
+        lines.push(`${metric}{task="${escapeLabel(task)}"} ${value}`);
+      }
+    }
+    for (const [histogram, [name, help]] of Object.entries(HISTOGRAMS)) {
+      const metric = `${this.prefix}_${name}`;
+      lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} histogram`);
+      for (const [task, value] of this.histograms.get(
+        histogram as TaskHistogram,
+      ) ?? []) {
+        const label = `task="${escapeLabel(task)}"`;
+        this.cumulative(value).forEach((count, i) => {
+          // biome-ignore lint/style/noNonNullAssertion: One count per bound
+          const le = formatBound(this.bounds[i]!);
+          lines.push(`${metric}_bucket{${label},le="${le}"} ${count}`);
+        });
+        lines.push(`${metric}_sum{${label}} ${value.sum}`);
+        lines.push(`${metric}_count{${label}} ${value.count}`);
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /** Clears every counter and histogram. */
+  public reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private cumulative(histogram: Histogram): number[] {
+    let total = 0;
+    return histogram.counts.map((count) => {
+      total += count;
+      return total;
+    });
+  }
+}
+
+/**
+ * Creates an Elysia plugin serving the metrics of a `background()` plugin in
+ * the Prometheus text format, for scraping.
+ *
+ * @param manager - The manager of the plugin, available as `background` on its decorator
+ * @param options - Path of the endpoint
+ * @returns Elysia plugin with the metrics endpoint
+ *
+ * @example
+ * ```typescript
+ * const tasks = background();
+ *
+ * const app = new Elysia()
+ *   .use(tasks)
+ *   .use(backgroundMetrics(tasks.decorator.background, { path: '/metrics' }));
+ * ```
+ */
+export function backgroundMetrics(
+  // biome-ignore lint/suspicious/noExplicitAny: Accept managers with any task definitions
+  manager: BackgroundManager<any>,
+  options: { path?: string } = {},
+) {
+  return new Elysia({ name: 'elysia-background-metrics', seed: options }).get(
+    options.path ?? '/metrics',
+    () =>
+      new Response(manager.toPrometheus(), {
+        headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' },
+      }),
+  );
+}
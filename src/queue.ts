@@ -0,0 +1,128 @@
+import type { BackgroundTask } from './index';
+import type { RetryPolicy } from './retry';
+
+/**
+ * Options of a persisted task, restored when it is replayed.
+ * Functions such as `retry.shouldRetry` cannot be stored and are left out.
+ */
+export type QueuedTaskOptions = {
+  /** Name of the task, if it differs from the registered name */
+  name?: string;
+  /** Arbitrary metadata attached to the task */
+  metadata?: Record<string, unknown>;
+  /** Retry policy of the task */
+  retry?: Omit<RetryPolicy, 'shouldRetry'>;
+  /** Timeout of each attempt in milliseconds */
+  timeout?: number;
+  /** Idempotency key of the task */
+  key?: string;
+  /** Whether the task runs in the plugin's worker pool */
+  worker?: boolean;
+};
+
+/**
+ * Returns the options of a task that can be stored by a queue backend or
+ * dead-letter store.
+ *
+ * @param task - The task to store
+ * @param name - Name the task function was registered under
+ * @returns The serializable options
+ */
+export const getQueuedOptions = (
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  task: BackgroundTask<any[]>,
+  name: string,
+): QueuedTaskOptions => {
+  const { retry, timeout, key, worker } = task.options;
+  const { shouldRetry, ...retryPolicy } = retry ?? {};
+  return {
+    ...(task.name !== name && { name: task.name }),
+    ...(Object.keys(task.metadata).length > 0 && { metadata: task.metadata }),
+    ...(retry && { retry: retryPolicy }),
+    ...(timeout !== undefined && { timeout }),
+    ...(key !== undefined && { key }),
+    ...(worker && { worker: true }),
+  };
+};
+
+/**
+ * A persisted background task, as stored by a queue backend.
+ */
+export type QueuedTask = {
+  /** Identifier of the task */
+  id: string;
+  /** Name the task function was registered under */
+  name: string;
+  /** JSON-serializable arguments for the function */
+  args: unknown[];
+  /** When the task was added, in milliseconds since the epoch */
+  createdAt: number;
+  /** When the task is due to run, if it was delayed */
+  runAt?: number;
+  /** Options the task was added with */
+  options?: QueuedTaskOptions;
+};
+
+/**
+ * Storage for tasks that must survive a crash or restart.
+ * Tasks are added before the response is sent, completed once they have run,
+ * and tasks never completed are replayed when the app starts.
+ */
+export interface QueueBackend {
+  /**
+   * Stores a task before the response is sent.
+   * @param task - The task to store
+   */
+  add(task: QueuedTask): void | Promise<void>;
+  /**
+   * Marks a task as complete once it has run, whatever its outcome.
+   * @param id - Identifier of the task
+   */
+  complete(id: string): void | Promise<void>;
+  /**
+   * Lists the tasks that were added but never completed, oldest first.
+   * @returns The unfinished tasks
+   */
+  pending(): QueuedTask[] | Promise<QueuedTask[]>;
+  /**
+   * Claims an idempotency key for a task, unless another task claimed it
+   * less than its window ago. Optional: without it, keys are only deduplicated
+   * within the process.
+   * @param key - The idempotency key
+   * @param id - Identifier of the task claiming the key
+   * @param window - Time in milliseconds the claim is held
+   * @returns The id of the task holding the key, or undefined if the task claimed it
+   */
+  claim?(
+    key: string,
+    id: string,
+    window: number,
+  ): string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Queue backend keeping tasks in memory. Tasks do not survive a restart of
+ * the process, but those abandoned on shutdown are replayed if the same app
+ * instance is started again.
+ *
+ * @example
+ * ```typescript
+ * const app = new Elysia().use(background({ queue: new MemoryQueue(), tasks: { sendEmail } }));
+ * ```
+ */
+export class MemoryQueue implements QueueBackend {
+  /** Unfinished tasks, by identifier */
+  private readonly tasks = new Map<string, QueuedTask>();
+
+  public add(task: QueuedTask): void {
+    this.tasks.set(task.id, task);
+  }
+
+  public complete(id: string): void {
+    this.tasks.delete(id);
+  }
+
+  public pending(): QueuedTask[] {
+    return [...this.tasks.values()];
+  }
+}
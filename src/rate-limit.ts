@@ -0,0 +1,145 @@
+import type { BackgroundTask } from './index';
+
+// biome-ignore lint/suspicious/noExplicitAny: Generic task type
+type AnyTask = BackgroundTask<any[]>;
+
+/**
+ * A token bucket limiting how often matching tasks start.
+ * Tasks over the limit wait for a token instead of failing.
+ */
+export type RateLimitRule = {
+  /** Name of the tasks the rule applies to. Applies to every task if omitted */
+  name?: string;
+  /**
+   * Groups tasks into separate buckets, for example by tenant or API host.
+   * Tasks for which it returns `undefined` are not limited by the rule.
+   */
+  key?: (task: AnyTask) => string | undefined;
+  /** Number of tasks allowed to start per interval */
+  limit: number;
+  /**
+   * Length of the interval in milliseconds.
+   * @default 1000
+   */
+  interval?: number;
+  /**
+   * Number of tasks allowed to start at once after an idle period.
+   * @default limit
+   */
+  burst?: number;
+};
+
+/**
+ * Tokens reserved for a task, and how long it must wait for them.
+ */
+export type RateLimitReservation = {
+  /** Time in milliseconds before the task may start */
+  delay: number;
+  /** Returns the reserved tokens, for a task that will not run after all */
+  cancel: () => void;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+/** Number of buckets above which full buckets are discarded */
+const MAX_IDLE_BUCKETS = 1024;
+
+/**
+ * Token buckets for a set of rate limit rules. Reservations are granted in
+ * order, so tasks waiting for a token start first come, first served.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter([{ name: 'sendEmail', limit: 10 }]);
+ *
+ * const { delay } = limiter.reserve(task);
+ * await Bun.sleep(delay);
+ * ```
+ */
+export class RateLimiter {
+  /** Buckets of every rule, by key */
+  private readonly buckets: Map<string, Bucket>[];
+
+  /**
+   * Creates a new RateLimiter.
+   *
+   * @param rules - The rate limit rules
+   * @throws Error if a rule has no positive limit, interval or burst
+   */
+  constructor(private readonly rules: RateLimitRule[]) {
+    for (const rule of rules) {
+      const { limit, interval = 1000, burst = limit } = rule;
+      if (!(limit > 0) || !(interval > 0) || !(burst >= 1)) {
+        throw new Error(
+          `Rate limit${rule.name === undefined ? '' : ` for "${rule.name}"`} needs a positive limit, interval and burst`,
+        );
+      }
+    }
+    this.buckets = rules.map(() => new Map());
+  }
+
+  /**
+   * Reserves a token in every bucket a task is subject to.
+   *
+   * @param task - The task about to start
+   * @returns The time to wait for the tokens, and a way to return them
+   */
+  public reserve(task: AnyTask): RateLimitReservation {
+    const now = Date.now();
+    const reserved: Bucket[] = [];
+    let delay = 0;
+
+    this.rules.forEach((rule, i) => {
+      if (rule.name !== undefined && rule.name !== task.name) {
+        return;
+      }
+      const key = rule.key ? rule.key(task) : '';
+      if (key === undefined) {
+        return;
+      }
+      const { limit, interval = 1000, burst = limit } = rule;
+      const rate = limit / interval;
+      // biome-ignore lint/style/noNonNullAssertion: One map per rule
+      const buckets = this.buckets[i]!;
+      const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now };
+      bucket.tokens = Math.min(
+        burst,
+        bucket.tokens + (now - bucket.updatedAt) * rate,
+      );
+      bucket.updatedAt = now;
+      // Tokens go negative while tasks wait, queueing later tasks behind them
+      bucket.tokens--;
+      delay = Math.max(delay, bucket.tokens < 0 ? -bucket.tokens / rate : 0);
+      if (buckets.size >= MAX_IDLE_BUCKETS) {
+        this.discardFull(buckets, rate, burst, now);
+      }
+      buckets.set(key, bucket);
+      reserved.push(bucket);
+    });
+
+    return {
+      delay,
+      cancel: () => {
+        for (const bucket of reserved) {
+          bucket.tokens++;
+        }
+      },
+    };
+  }
+
+  private discardFull(
+    buckets: Map<string, Bucket>,
+    rate: number,
+    burst: number,
+    now: number,
+  ): void {
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * rate >= burst) {
+        buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  getSchemaValidator,
+  type Static,
+  type TSchema,
+  ValidationError,
+} from 'elysia';
+
+/**
+ * A named background task whose arguments are validated with a schema,
+ * created with `defineTask`.
+ *
+ * @template N - Name of the task
+ * @template S - Schema of the task's arguments
+ * @template R - Result type of the handler
+ */
+export type TaskDefinition<
+  N extends string = string,
+  S extends TSchema = TSchema,
+  R = unknown,
+> = {
+  /** Name of the task, used to enqueue and persist it */
+  readonly name: N;
+  /** Schema the arguments are validated against */
+  readonly schema: S;
+  /** Function executed with the validated arguments */
+  handler(args: Static<S>): R | Promise<R>;
+};
+
+/**
+ * Arguments of the task named `N` among the definitions `D`.
+ */
+export type TaskArgs<D extends TaskDefinition, N extends D['name']> = Static<
+  Extract<D, { name: N }>['schema']
+>;
+
+/**
+ * Result of the task named `N` among the definitions `D`.
+ */
+export type TaskResult<D extends TaskDefinition, N extends D['name']> =
+  Extract<D, { name: N }> extends TaskDefinition<N, TSchema, infer R>
+    ? R
+    : never;
+
+/**
+ * Defines a named background task whose arguments are validated with a schema.
+ * Pass the definitions to the `tasks` option of `background()` to enqueue them
+ * by name with `backgroundTasks.enqueue()`.
+ *
+ * @param name - Name of the task
+ * @param schema - Schema of the task's arguments, built with Elysia's `t`
+ * @param handler - Function executed with the validated arguments
+ * @returns The task definition
+ *
+ * @example
+ * ```typescript
+ * const sendEmail = defineTask(
+ *   'sendEmail',
+ *   t.Object({ to: t.String({ format: 'email' }), subject: t.String() }),
+ *   async ({ to, subject }) => {
+ *     await mailer.send(to, subject);
+ *   },
+ * );
+ * ```
+ */
+export const defineTask = <const N extends string, S extends TSchema, R>(
+  name: N,
+  schema: S,
+  handler: (args: Static<S>) => R | Promise<R>,
+): TaskDefinition<N, S, R> => ({ name, schema, handler });
+
+/** Compiled validators, by schema */
+const validators = new WeakMap<
+  TSchema,
+  ReturnType<typeof getSchemaValidator<TSchema>>
+>();
+
+/**
+ * Validates the arguments of a task against its definition's schema.
+ *
+ * @param definition - The task definition
+ * @param args - The arguments to validate
+ * @throws ValidationError if the arguments do not match the schema
+ */
+export const assertTaskArgs = (
+  definition: TaskDefinition,
+  args: unknown,
+): void => {
+  let validator = validators.get(definition.schema);
+  if (!validator) {
+    validator = getSchemaValidator(definition.schema);
+    validators.set(definition.schema, validator);
+  }
+  if (!validator.Check(args)) {
+    throw new ValidationError('task', validator, args);
+  }
+};
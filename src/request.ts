@@ -0,0 +1,94 @@
+import type { Context } from 'elysia';
+
+/**
+ * Read-only snapshot of the request that added a background task.
+ */
+export type RequestSnapshot = Readonly<{
+  /** Request identifier, from the `x-request-id` header or generated */
+  id: string;
+  /** HTTP method */
+  method: string;
+  /** Path of the request URL */
+  path: string;
+  /** Route pattern that matched the request */
+  route: string;
+  /** Copied request headers, by lowercase name */
+  headers: Readonly<Record<string, string>>;
+  /** Copied store values */
+  store: Readonly<Record<string, unknown>>;
+  /** Copied derived and resolved context values */
+  derived: Readonly<Record<string, unknown>>;
+}>;
+
+/**
+ * Configuration options for request snapshots.
+ */
+export type RequestContextOptions = {
+  /**
+   * Names of the request headers to copy. Headers are not copied by default
+   * since they may contain credentials.
+   * @default []
+   */
+  headers?: string[];
+  /**
+   * Keys of the store values to copy.
+   * @default []
+   */
+  store?: string[];
+  /**
+   * Keys of the derived and resolved context values to copy.
+   * @default []
+   */
+  derived?: string[];
+  /**
+   * Returns the identifier of a request.
+   * Defaults to the `x-request-id` header, or a random UUID when missing.
+   * @param context - The request context
+   * @returns The request identifier
+   */
+  requestId?: (context: Context) => string;
+};
+
+const pick = (
+  source: Record<string, unknown>,
+  keys: string[],
+): Readonly<Record<string, unknown>> =>
+  Object.freeze(
+    Object.fromEntries(
+      keys.filter((key) => key in source).map((key) => [key, source[key]]),
+    ),
+  );
+
+/**
+ * Creates a read-only snapshot of a request for background tasks.
+ *
+ * @param context - The request context
+ * @param options - Which headers and values to copy
+ * @returns The frozen snapshot
+ */
+export const createRequestSnapshot = (
+  context: Context,
+  options: RequestContextOptions = {},
+): RequestSnapshot => {
+  const { request } = context;
+  const headers: Record<string, string> = {};
+  for (const name of options.headers ?? []) {
+    const value = request.headers.get(name);
+    if (value !== null) {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+
+  return Object.freeze({
+    id:
+      options.requestId?.(context) ??
+      request.headers.get('x-request-id') ??
+      crypto.randomUUID(),
+    method: request.method,
+    path: context.path,
+    route: context.route,
+    headers: Object.freeze(headers),
+    store: pick(context.store, options.store ?? []),
+    derived: pick(context as Record<string, unknown>, options.derived ?? []),
+  });
+};
@@ -0,0 +1,71 @@
+/**
+ * Retry policy for a background task.
+ *
+ * @example
+ * ```typescript
+ * const policy: RetryPolicy = {
+ *   attempts: 5,
+ *   backoff: 'exponential',
+ *   delay: 200,
+ *   jitter: true,
+ *   shouldRetry: (error) => !(error instanceof ValidationError),
+ * };
+ * ```
+ */
+export type RetryPolicy = {
+  /**
+   * Maximum number of attempts, including the first one.
+   * @default 1
+   */
+  attempts?: number;
+  /**
+   * How the delay grows between attempts.
+   * `fixed` waits `delay` every time, `exponential` doubles it after each attempt.
+   * @default 'exponential'
+   */
+  backoff?: 'fixed' | 'exponential';
+  /**
+   * Delay in milliseconds before the first retry.
+   * @default 1000
+   */
+  delay?: number;
+  /**
+   * Upper bound in milliseconds for the delay between attempts.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Whether to randomize each delay between half and all of its value,
+   * so failing tasks do not retry in lockstep.
+   * @default false
+   */
+  jitter?: boolean;
+  /**
+   * Decides whether a failed attempt should be retried.
+   * Not called once the maximum number of attempts is reached.
+   * @param error - The error thrown by the attempt
+   * @param attempt - The number of the attempt that failed, starting at 1
+   * @returns true to retry, false to fail the task immediately
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+};
+
+/**
+ * Calculates the delay before retrying after a failed attempt.
+ *
+ * @param policy - The retry policy
+ * @param attempt - The number of the attempt that failed, starting at 1
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const {
+    backoff = 'exponential',
+    delay = 1000,
+    maxDelay = 30_000,
+    jitter = false,
+  } = policy;
+
+  const base = backoff === 'exponential' ? delay * 2 ** (attempt - 1) : delay;
+  const capped = Math.min(base, maxDelay);
+  return jitter ? capped / 2 + Math.random() * (capped / 2) : capped;
+};
@@ -0,0 +1,301 @@
+import type { BackgroundTask } from './index';
+import {
+  RateLimiter,
+  type RateLimitReservation,
+  type RateLimitRule,
+} from './rate-limit';
+import { rejectOnAbort, sleep } from './utils';
+
+// biome-ignore lint/suspicious/noExplicitAny: Generic task type
+type AnyTask = BackgroundTask<any[]>;
+
+/**
+ * What happens when a task is added while the queue is full.
+ * - `reject`: `addTask` throws `BackgroundQueueFullError`
+ * - `drop-oldest`: the oldest queued task is cancelled to make room
+ * - `run-inline`: the task is accepted and runs without waiting for a free slot
+ */
+export type OverflowPolicy = 'reject' | 'drop-oldest' | 'run-inline';
+
+/**
+ * Configuration options for the scheduler shared by every request.
+ */
+export type SchedulerOptions = {
+  /**
+   * Maximum number of tasks running at the same time across all requests.
+   * @default Infinity
+   */
+  concurrency?: number;
+  /**
+   * Maximum number of tasks added but not started yet across all requests.
+   * @default Infinity
+   */
+  maxQueueSize?: number;
+  /**
+   * What happens when a task is added while the queue is full.
+   * @default 'reject'
+   */
+  overflow?: OverflowPolicy;
+  /**
+   * Rate limits on how often tasks start, by task name or key.
+   * Tasks over a limit wait for their turn before taking a slot.
+   * @default []
+   */
+  rateLimits?: RateLimitRule[];
+};
+
+/**
+ * Snapshot of the scheduler's state and counters.
+ */
+export type SchedulerMetrics = {
+  /** Tasks currently running */
+  running: number;
+  /** Tasks added but not started yet, including those waiting for a slot */
+  queued: number;
+  /** Tasks rejected because the queue was full */
+  rejected: number;
+  /** Queued tasks cancelled to make room for newer ones */
+  dropped: number;
+  /** Tasks that bypassed the concurrency limit because the queue was full */
+  inline: number;
+  /** Tasks currently waiting for a rate limit */
+  throttled: number;
+  /** Tasks that had to wait for a rate limit */
+  rateLimited: number;
+};
+
+/**
+ * Error thrown by `addTask` when the queue is full and the overflow policy is `reject`.
+ * @property task - The BackgroundTask instance that was rejected
+ */
+export class BackgroundQueueFullError extends Error {
+  constructor(public readonly task: AnyTask) {
+    super('Background task queue is full');
+    this.name = 'BackgroundQueueFullError';
+  }
+}
+
+type Waiter = {
+  task: AnyTask;
+  resolve: () => void;
+};
+
+/**
+ * Limits how many tasks run at the same time, how many can be queued and
+ * how often they start, across every task collection that shares it.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new Scheduler({ concurrency: 10, maxQueueSize: 1000 });
+ *
+ * scheduler.enqueue(task);
+ * const release = await scheduler.acquire(task);
+ * try {
+ *   await task.run();
+ * } finally {
+ *   release();
+ * }
+ * ```
+ */
+export class Scheduler {
+  /** Tasks added but not started yet, including those waiting for a slot, oldest first */
+  private readonly queued = new Map<AnyTask, () => void>();
+  /** Tasks allowed to bypass the concurrency limit */
+  private readonly inline = new WeakSet<AnyTask>();
+  /** Tasks waiting for a free slot, oldest first */
+  private waiters: Waiter[] = [];
+  /** Number of tasks currently running */
+  private running = 0;
+  /** Number of tasks currently waiting for a rate limit */
+  private throttled = 0;
+  /** Counters reported in the metrics */
+  private readonly counters = {
+    rejected: 0,
+    dropped: 0,
+    inline: 0,
+    rateLimited: 0,
+  };
+  /** Token buckets of the rate limits */
+  private readonly limiter: RateLimiter;
+  /** Resolved once processing resumes, set while paused */
+  private pausing?: PromiseWithResolvers<void>;
+
+  /**
+   * Creates a new Scheduler.
+   *
+   * @param options - Configuration options for concurrency, queueing and rate limits
+   * @throws Error if a rate limit rule is invalid
+   */
+  constructor(private readonly options: SchedulerOptions = {}) {
+    this.limiter = new RateLimiter(options.rateLimits ?? []);
+  }
+
+  /** Snapshot of the scheduler's state and counters */
+  public get metrics(): SchedulerMetrics {
+    return {
+      running: this.running,
+      queued: this.queued.size,
+      throttled: this.throttled,
+      ...this.counters,
+    };
+  }
+
+  /** Whether tasks are kept from starting */
+  public get paused(): boolean {
+    return this.pausing !== undefined;
+  }
+
+  /**
+   * Keeps tasks from starting until `resume()` is called, including those
+   * already waiting for a slot. Tasks already running are not interrupted.
+   */
+  public pause(): void {
+    this.pausing ??= Promise.withResolvers();
+  }
+
+  /**
+   * Lets tasks start again after `pause()`.
+   */
+  public resume(): void {
+    this.pausing?.resolve();
+    this.pausing = undefined;
+    this.wake();
+  }
+
+  /**
+   * Registers a task that was just added, applying the overflow policy if the queue is full.
+   * Cancelled tasks leave the queue automatically.
+   *
+   * @param task - The task to register
+   * @throws BackgroundQueueFullError if the queue is full and the overflow policy is `reject`
+   */
+  public enqueue(task: AnyTask): void {
+    const { maxQueueSize = Infinity, overflow = 'reject' } = this.options;
+
+    if (this.queued.size >= maxQueueSize) {
+      switch (overflow) {
+        case 'reject':
+          this.counters.rejected++;
+          throw new BackgroundQueueFullError(task);
+        case 'drop-oldest': {
+          const [oldest] = this.queued.keys();
+          if (oldest) {
+            this.counters.dropped++;
+            oldest.cancel('dropped');
+          }
+          break;
+        }
+        case 'run-inline':
+          this.counters.inline++;
+          this.inline.add(task);
+          return;
+      }
+    }
+
+    const onAbort = () => this.remove(task);
+    task.signal.addEventListener('abort', onAbort, { once: true });
+    this.queued.set(task, () =>
+      task.signal.removeEventListener('abort', onAbort),
+    );
+  }
+
+  /**
+   * Waits while processing is paused, for the task's rate limits, then for a
+   * free slot to run it. Called before the first attempt, and again before
+   * every retry once the slot was freed for the backoff delay.
+   *
+   * @param task - The task about to run
+   * @returns Promise resolving with a function that frees the slot once the task finishes
+   * @throws BackgroundTaskCancelledError if the task is cancelled while waiting
+   */
+  public async acquire(task: AnyTask): Promise<() => void> {
+    task.signal.throwIfAborted();
+    while (this.pausing) {
+      await Promise.race([this.pausing.promise, rejectOnAbort(task.signal)]);
+    }
+    const reservation = this.limiter.reserve(task);
+    if (reservation.delay > 0) {
+      await this.wait(task, reservation);
+    }
+
+    const { concurrency = Infinity } = this.options;
+    // Processing may have been paused while the task waited for a rate limit
+    if (
+      this.inline.has(task) ||
+      (!this.pausing && this.running < concurrency)
+    ) {
+      this.remove(task);
+      this.running++;
+      return this.createRelease();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        task,
+        resolve: () => {
+          task.signal.removeEventListener('abort', onAbort);
+          this.remove(task);
+          resolve();
+        },
+      };
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((item) => item !== waiter);
+        reject(task.signal.reason);
+      };
+      task.signal.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+    return this.createRelease();
+  }
+
+  /**
+   * Removes a task that will not run from the queue.
+   *
+   * @param task - The task to remove
+   */
+  public remove(task: AnyTask): void {
+    this.queued.get(task)?.();
+    this.queued.delete(task);
+  }
+
+  private async wait(
+    task: AnyTask,
+    reservation: RateLimitReservation,
+  ): Promise<void> {
+    this.counters.rateLimited++;
+    this.throttled++;
+    try {
+      await sleep(reservation.delay, task.signal);
+    } catch (error) {
+      reservation.cancel();
+      throw error;
+    } finally {
+      this.throttled--;
+    }
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.running--;
+      this.wake();
+    };
+  }
+
+  /** Hands the free slots to the oldest waiting tasks, unless paused */
+  private wake(): void {
+    const { concurrency = Infinity } = this.options;
+    while (!this.pausing && this.running < concurrency) {
+      const waiter = this.waiters.shift();
+      if (!waiter) {
+        return;
+      }
+      this.running++;
+      waiter.resolve();
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { Database } from 'bun:sqlite';
+
+import type { DeadLetter, DeadLetterStore } from './dead-letter';
+import type { QueueBackend, QueuedTask } from './queue';
+
+type Row = {
+  id: string;
+  name: string;
+  args: string;
+  created_at: number;
+  run_at: number | null;
+  options: string | null;
+};
+
+type DeadLetterRow = {
+  id: string;
+  name: string;
+  registered_name: string | null;
+  options: string | null;
+  args: string;
+  metadata: string;
+  error: string;
+  stack: string | null;
+  attempts: number;
+  request: string | null;
+  created_at: number;
+  failed_at: number;
+};
+
+const fromDeadLetterRow = (row: DeadLetterRow): DeadLetter => ({
+  id: row.id,
+  name: row.name,
+  ...(row.registered_name !== null && { registeredName: row.registered_name }),
+  ...(row.options !== null && { options: JSON.parse(row.options) }),
+  args: JSON.parse(row.args),
+  metadata: JSON.parse(row.metadata),
+  error: JSON.parse(row.error),
+  stack: row.stack ?? undefined,
+  attempts: row.attempts,
+  request: row.request === null ? undefined : JSON.parse(row.request),
+  createdAt: row.created_at,
+  failedAt: row.failed_at,
+});
+
+/**
+ * Queue backend persisting tasks to a SQLite database with `bun:sqlite`,
+ * so tasks the client was told about survive a crash or restart.
+ *
+ * @example
+ * ```typescript
+ * const app = new Elysia().use(
+ *   background({
+ *     queue: new SqliteQueue('background-tasks.sqlite'),
+ *     tasks: { sendEmail },
+ *   }),
+ * );
+ * ```
+ */
+export class SqliteQueue implements QueueBackend {
+  /** The underlying database */
+  public readonly database: Database;
+
+  /**
+   * Creates a new SqliteQueue, creating its table if needed.
+   *
+   * @param database - Path of the database file, or an open database
+   */
+  constructor(database: string | Database) {
+    this.database =
+      typeof database === 'string' ? new Database(database) : database;
+    this.database.run(
+      `CREATE TABLE IF NOT EXISTS background_tasks (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        run_at INTEGER,
+        options TEXT
+      )`,
+    );
+    // Tables created by earlier versions have no options column
+    const columns = this.database
+      .query<{ name: string }, []>('PRAGMA table_info(background_tasks)')
+      .all();
+    if (!columns.some((column) => column.name === 'options')) {
+      this.database.run('ALTER TABLE background_tasks ADD COLUMN options TEXT');
+    }
+    this.database.run(
+      `CREATE TABLE IF NOT EXISTS background_task_keys (
+        key TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`,
+    );
+  }
+
+  public add(task: QueuedTask): void {
+    this.database.run(
+      'INSERT OR REPLACE INTO background_tasks (id, name, args, created_at, run_at, options) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        task.id,
+        task.name,
+        JSON.stringify(task.args),
+        task.createdAt,
+        task.runAt ?? null,
+        task.options ? JSON.stringify(task.options) : null,
+      ],
+    );
+  }
+
+  public complete(id: string): void {
+    this.database.run('DELETE FROM background_tasks WHERE id = ?', [id]);
+  }
+
+  public pending(): QueuedTask[] {
+    return this.database
+      .query<Row, []>(
+        'SELECT id, name, args, created_at, run_at, options FROM background_tasks ORDER BY created_at, rowid',
+      )
+      .all()
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        args: JSON.parse(row.args),
+        createdAt: row.created_at,
+        runAt: row.run_at ?? undefined,
+        options: row.options ? JSON.parse(row.options) : undefined,
+      }));
+  }
+
+  public claim(key: string, id: string, window: number): string | undefined {
+    const now = Date.now();
+    const holder = this.database.transaction(() => {
+      this.database.run(
+        'DELETE FROM background_task_keys WHERE expires_at <= ?',
+        [now],
+      );
+      this.database.run(
+        'INSERT OR IGNORE INTO background_task_keys (key, task_id, expires_at) VALUES (?, ?, ?)',
+        [key, id, now + window],
+      );
+      return this.database
+        .query<{ task_id: string }, [string]>(
+          'SELECT task_id FROM background_task_keys WHERE key = ?',
+        )
+        .get(key);
+    })();
+    return holder && holder.task_id !== id ? holder.task_id : undefined;
+  }
+
+  /** Closes the underlying database. */
+  public close(): void {
+    this.database.close();
+  }
+}
+
+/**
+ * Dead-letter store persisting failed tasks to a SQLite database with `bun:sqlite`.
+ * Pass the database of a `SqliteQueue` to keep both in the same file.
+ *
+ * @example
+ * ```typescript
+ * const queue = new SqliteQueue('background-tasks.sqlite');
+ * const app = new Elysia().use(
+ *   background({ queue, deadLetter: new SqliteDeadLetterStore(queue.database) }),
+ * );
+ * ```
+ */
+export class SqliteDeadLetterStore implements DeadLetterStore {
+  /** The underlying database */
+  public readonly database: Database;
+
+  /**
+   * Creates a new SqliteDeadLetterStore, creating its table if needed.
+   *
+   * @param database - Path of the database file, or an open database
+   */
+  constructor(database: string | Database) {
+    this.database =
+      typeof database === 'string' ? new Database(database) : database;
+    this.database.run(
+      `CREATE TABLE IF NOT EXISTS background_dead_letters (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        error TEXT NOT NULL,
+        stack TEXT,
+        attempts INTEGER NOT NULL,
+        request TEXT,
+        created_at INTEGER NOT NULL,
+        failed_at INTEGER NOT NULL,
+        registered_name TEXT,
+        options TEXT
+      )`,
+    );
+    // Tables created by earlier versions have no registered name and options columns
+    const columns = this.database
+      .query<{ name: string }, []>('PRAGMA table_info(background_dead_letters)')
+      .all();
+    for (const column of ['registered_name', 'options']) {
+      if (!columns.some(({ name }) => name === column)) {
+        this.database.run(
+          `ALTER TABLE background_dead_letters ADD COLUMN ${column} TEXT`,
+        );
+      }
+    }
+  }
+
+  public add(entry: DeadLetter): void {
+    this.database.run(
+      'INSERT OR REPLACE INTO background_dead_letters (id, name, registered_name, options, args, metadata, error, stack, attempts, request, created_at, failed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        entry.id,
+        entry.name,
+        entry.registeredName ?? null,
+        entry.options === undefined ? null : JSON.stringify(entry.options),
+        JSON.stringify(entry.args),
+        JSON.stringify(entry.metadata),
+        JSON.stringify(entry.error),
+        entry.stack ?? null,
+        entry.attempts,
+        entry.request === undefined ? null : JSON.stringify(entry.request),
+        entry.createdAt,
+        entry.failedAt,
+      ],
+    );
+  }
+
+  public list(): DeadLetter[] {
+    return this.database
+      .query<DeadLetterRow, []>(
+        'SELECT * FROM background_dead_letters ORDER BY failed_at, rowid',
+      )
+      .all()
+      .map(fromDeadLetterRow);
+  }
+
+  public get(id: string): DeadLetter | undefined {
+    const row = this.database
+      .query<DeadLetterRow, [string]>(
+        'SELECT * FROM background_dead_letters WHERE id = ?',
+      )
+      .get(id);
+    return row ? fromDeadLetterRow(row) : undefined;
+  }
+
+  public delete(id: string): boolean {
+    return (
+      this.database.run('DELETE FROM background_dead_letters WHERE id = ?', [
+        id,
+      ]).changes > 0
+    );
+  }
+}
@@ -0,0 +1,409 @@
+import type { Context } from 'elysia';
+
+import {
+  BackgroundManager,
+  type BackgroundOptions,
+  type BackgroundTask,
+  type BackgroundTasks,
+  type BackgroundTasksOptions,
+  background,
+} from './index';
+import type { TaskDefinition } from './registry';
+
+/**
+ * Function run instead of a stubbed task.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Allow stubbing functions with any arguments
+export type TaskStub = (...args: any[]) => unknown;
+
+/**
+ * Tasks enqueued while handling a request.
+ */
+export type EnqueuedRequest = {
+  /** HTTP method of the request, unless the tasks were not added by a request */
+  method?: string;
+  /** Path of the request, unless the tasks were not added by a request */
+  path?: string;
+  /** Tasks added while handling the request, in order, with their arguments */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  tasks: BackgroundTask<any[]>[];
+};
+
+/**
+ * Configuration options for the testing plugin.
+ *
+ * @template D - Task definitions that can be enqueued by name
+ */
+export type TestBackgroundOptions<
+  D extends readonly TaskDefinition[] = readonly TaskDefinition[],
+> = BackgroundOptions<D> & {
+  /** Functions run instead of the tasks with the same name */
+  stubs?: Record<string, TaskStub>;
+  /**
+   * Fake clock advanced by `flushBackgroundTasks()`, so delayed and retried
+   * tasks run without waiting. It must be installed by the test.
+   */
+  clock?: FakeClock;
+};
+
+/** Number of event loop turns that let running tasks make progress */
+const SETTLE_TURNS = 5;
+
+/** Lets pending callbacks, microtasks and `onAfterResponse` hooks run. */
+const settle = async (): Promise<void> => {
+  for (let turn = 0; turn < SETTLE_TURNS; turn++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+/** Handle returned by the fake `setTimeout` */
+class FakeTimeout {
+  constructor(public readonly id: number) {}
+
+  public ref(): this {
+    return this;
+  }
+
+  public unref(): this {
+    return this;
+  }
+
+  public hasRef(): boolean {
+    return true;
+  }
+
+  public [Symbol.toPrimitive](): number {
+    return this.id;
+  }
+}
+
+type FakeTimer = {
+  at: number;
+  callback: (...args: unknown[]) => void;
+  args: unknown[];
+};
+
+/**
+ * Clock replacing `setTimeout`, `clearTimeout` and `Date.now` while installed,
+ * so time only moves when the test advances it. Between timers, it lets the
+ * callbacks of the previous timer run, so tasks can schedule the next ones.
+ *
+ * @example
+ * ```typescript
+ * const clock = new FakeClock().install();
+ * try {
+ *   backgroundTasks.addTask({ delay: 60_000 }, sendReminder);
+ *   await clock.tick(60_000);
+ * } finally {
+ *   clock.uninstall();
+ * }
+ * ```
+ */
+export class FakeClock {
+  /** Current time, in milliseconds since the epoch */
+  public now: number;
+  /** Pending timers, by id */
+  private readonly timers = new Map<number, FakeTimer>();
+  /** Id of the next timer */
+  private nextId = 1;
+  /** Functions replaced while installed */
+  private original?: {
+    setTimeout: typeof setTimeout;
+    clearTimeout: typeof clearTimeout;
+    now: () => number;
+  };
+
+  /**
+   * Creates a new FakeClock.
+   *
+   * @param now - Time the clock starts at (optional, defaults to the current time)
+   */
+  constructor(now: number | Date = Date.now()) {
+    this.now = new Date(now).getTime();
+  }
+
+  /** Number of pending timers */
+  public get pending(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Replaces the global timers and `Date.now` with the clock.
+   *
+   * @returns The clock
+   */
+  public install(): this {
+    if (this.original) {
+      return this;
+    }
+    const original = {
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      now: Date.now,
+    };
+    this.original = original;
+    globalThis.setTimeout = ((
+      callback: (...args: unknown[]) => void,
+      delay = 0,
+      ...args: unknown[]
+    ) => {
+      const id = this.nextId++;
+      this.timers.set(id, {
+        at: this.now + Math.max(0, delay),
+        callback,
+        args,
+      });
+      return new FakeTimeout(id);
+    }) as unknown as typeof setTimeout;
+    globalThis.clearTimeout = ((handle: unknown) => {
+      if (handle instanceof FakeTimeout) {
+        this.timers.delete(handle.id);
+      } else {
+        original.clearTimeout(handle as Parameters<typeof clearTimeout>[0]);
+      }
+    }) as typeof clearTimeout;
+    Date.now = () => this.now;
+    return this;
+  }
+
+  /**
+   * Restores the global timers and `Date.now`. Pending timers are discarded.
+   */
+  public uninstall(): void {
+    if (!this.original) {
+      return;
+    }
+    globalThis.setTimeout = this.original.setTimeout;
+    globalThis.clearTimeout = this.original.clearTimeout;
+    Date.now = this.original.now;
+    this.original = undefined;
+    this.timers.clear();
+  }
+
+  /**
+   * Moves time forward, firing the timers due in the meantime in order.
+   *
+   * @param ms - Time to advance in milliseconds
+   * @returns Promise that resolves once every due timer has fired
+   */
+  public async tick(ms: number): Promise<void> {
+    const until = this.now + ms;
+    await settle();
+    while (this.nextAt() <= until) {
+      await this.next();
+    }
+    this.now = until;
+  }
+
+  /**
+   * Moves time forward to the next timer and fires it.
+   *
+   * @returns Whether a timer was pending
+   */
+  public async next(): Promise<boolean> {
+    const at = this.nextAt();
+    const entry = [...this.timers].find(([, timer]) => timer.at === at);
+    if (!entry) {
+      return false;
+    }
+    const [id, timer] = entry;
+    this.timers.delete(id);
+    this.now = Math.max(this.now, timer.at);
+    timer.callback(...timer.args);
+    await settle();
+    return true;
+  }
+
+  private nextAt(): number {
+    let at = Infinity;
+    for (const timer of this.timers.values()) {
+      at = Math.min(at, timer.at);
+    }
+    return at;
+  }
+}
+
+/**
+ * Manager of the testing plugin, recording the tasks enqueued by every
+ * request and running stubs instead of tasks by name.
+ *
+ * @template D - Task definitions that can be enqueued by name
+ */
+export class TestBackgroundManager<
+  D extends TaskDefinition = never,
+> extends BackgroundManager<D> {
+  /** Tasks enqueued by every request, in the order the requests finished */
+  public readonly requests: EnqueuedRequest[] = [];
+  /** Fake clock advanced when flushing, if any */
+  public readonly clock?: FakeClock;
+  /** Functions run instead of the tasks with the same name */
+  private readonly stubs: Map<string, TaskStub>;
+
+  /**
+   * Creates a new TestBackgroundManager.
+   *
+   * @param options - Configuration options of the plugin, stubs and clock
+   */
+  constructor(options: TestBackgroundOptions = {}) {
+    const { stubs = {}, clock, ...pluginOptions } = options;
+    super(pluginOptions);
+    this.clock = clock;
+    this.stubs = new Map(Object.entries(stubs));
+  }
+
+  /**
+   * Every task enqueued so far, across requests.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Generic task type
+  public get tasks(): BackgroundTask<any[]>[] {
+    return this.requests.flatMap((request) => request.tasks);
+  }
+
+  /**
+   * Runs a function instead of the tasks with the given name added from now on.
+   *
+   * @param name - Name of the task
+   * @param stub - The function to run instead
+   */
+  public stub(name: string, stub: TaskStub): void {
+    this.stubs.set(name, stub);
+  }
+
+  /**
+   * Runs the real functions again for every stubbed task added from now on.
+   */
+  public restore(): void {
+    this.stubs.clear();
+  }
+
+  /**
+   * Forgets the recorded requests.
+   */
+  public reset(): void {
+    this.requests.length = 0;
+  }
+
+  public override dispatch(
+    backgroundTasks: BackgroundTasks<D>,
+    context?: Context,
+  ): void {
+    this.requests.push({
+      method: context?.request.method,
+      path: context?.path,
+      tasks: [...backgroundTasks.pending],
+    });
+    super.dispatch(backgroundTasks, context);
+  }
+
+  protected override collectionOptions(
+    context?: Context,
+  ): BackgroundTasksOptions {
+    return { ...super.collectionOptions(context), stubs: this.stubs };
+  }
+}
+
+/**
+ * Creates the background task plugin for tests: it accepts the same options
+ * as `background()`, and its manager records the tasks enqueued by every
+ * request and runs stubs instead of tasks by name.
+ *
+ * @param options - Configuration options of the plugin, stubs and clock
+ * @returns Elysia plugin with a `TestBackgroundManager` as `background`
+ *
+ * @example
+ * ```typescript
+ * const app = new Elysia()
+ *   .use(testBackground({ stubs: { sendEmail: () => {} } }))
+ *   .use(routes);
+ *
+ * await app.handle(new Request('http://localhost/users', { method: 'POST' }));
+ * await flushBackgroundTasks(app);
+ *
+ * expect(getEnqueuedTasks(app)[0]?.tasks[0]?.args).toEqual(['user@example.com']);
+ * ```
+ */
+export function testBackground<const D extends readonly TaskDefinition[] = []>(
+  options: TestBackgroundOptions<D> = {},
+) {
+  const { stubs, clock, ...pluginOptions } = options;
+  return background<D>(
+    pluginOptions,
+    new TestBackgroundManager<D[number]>(options),
+  );
+}
+
+const getManager = (app: {
+  decorator: object;
+  // biome-ignore lint/suspicious/noExplicitAny: Accept managers with any task definitions
+}): BackgroundManager<any> => {
+  const manager = (app.decorator as { background?: unknown }).background;
+  if (!(manager instanceof BackgroundManager)) {
+    throw new Error('The app does not use the background plugin');
+  }
+  return manager;
+};
+
+const getTestManager = (app: {
+  decorator: object;
+  // biome-ignore lint/suspicious/noExplicitAny: Accept managers with any task definitions
+}): TestBackgroundManager<any> => {
+  const manager = getManager(app);
+  if (!(manager instanceof TestBackgroundManager)) {
+    throw new Error('The app does not use testBackground()');
+  }
+  return manager;
+};
+
+/**
+ * Waits until every background task of an app has finished, including tasks
+ * added by requests whose response was just sent. With the fake clock of
+ * `testBackground()`, time is advanced so delayed and retried tasks run too;
+ * otherwise delayed tasks that are not due yet are not waited for.
+ *
+ * @param app - App using `background()` or `testBackground()`
+ * @returns Promise that resolves once no task is left to run
+ * @throws Error if the app does not use the background plugin
+ */
+export async function flushBackgroundTasks(app: {
+  decorator: object;
+}): Promise<void> {
+  const manager = getManager(app);
+  const clock =
+    manager instanceof TestBackgroundManager ? manager.clock : undefined;
+
+  for (;;) {
+    await settle();
+    if (manager.inFlight === 0) {
+      // Delayed tasks only start once the clock reaches them
+      if (!clock || manager.scheduled === 0 || !(await clock.next())) {
+        return;
+      }
+      continue;
+    }
+    const idle = await Promise.race([
+      manager.idle().then(() => true),
+      settle().then(() => false),
+    ]);
+    if (idle) {
+      continue;
+    }
+    // Running tasks wait for a timer, or for work outside of the clock
+    if (!(await clock?.next())) {
+      await manager.idle();
+    }
+  }
+}
+
+/**
+ * Returns the tasks enqueued by every request handled by an app using
+ * `testBackground()`, with their arguments and statuses.
+ *
+ * @param app - App using `testBackground()`
+ * @returns The enqueued tasks, by request
+ * @throws Error if the app does not use `testBackground()`
+ */
+export function getEnqueuedTasks(app: {
+  decorator: object;
+}): EnqueuedRequest[] {
+  return getTestManager(app).requests;
+}
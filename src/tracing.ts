@@ -0,0 +1,261 @@
+/**
+ * Identity of a span, propagated between services in the W3C `traceparent` header.
+ */
+export type SpanContext = {
+  /** Identifier of the trace, as 32 lowercase hex characters */
+  traceId: string;
+  /** Identifier of the span, as 16 lowercase hex characters */
+  spanId: string;
+  /** Trace flags, where `1` means the trace is sampled */
+  traceFlags: number;
+};
+
+/**
+ * Attributes attached to a span or span event.
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A timed operation within a trace, started by a `Tracer`.
+ */
+export interface Span {
+  /** Identity of the span, to propagate it to other services */
+  readonly context: SpanContext;
+  /**
+   * Sets an attribute, replacing any previous value.
+   * @param key - Name of the attribute
+   * @param value - Value of the attribute
+   */
+  setAttribute(key: string, value: string | number | boolean): void;
+  /**
+   * Records an event that happened during the span.
+   * @param name - Name of the event
+   * @param attributes - Attributes of the event (optional)
+   */
+  addEvent(name: string, attributes?: SpanAttributes): void;
+  /**
+   * Records an error thrown during the span.
+   * @param error - The error
+   */
+  recordException(error: unknown): void;
+  /**
+   * Sets whether the operation succeeded.
+   * @param status - The status, with a message for errors
+   */
+  setStatus(status: { code: 'ok' | 'error'; message?: string }): void;
+  /** Ends the span. */
+  end(): void;
+}
+
+/**
+ * Starts spans for background tasks. Adapt it to OpenTelemetry or another
+ * tracing library, or use `MemoryTracer` in tests.
+ */
+export interface Tracer {
+  /**
+   * Starts a span.
+   * @param name - Name of the span
+   * @param options - Parent of the span, if any, and its initial attributes
+   * @returns The started span
+   */
+  startSpan(
+    name: string,
+    options: { parent?: SpanContext; attributes?: SpanAttributes },
+  ): Span;
+  /**
+   * Reads the trace context of a request from its headers.
+   * Defaults to parsing the W3C `traceparent` header.
+   * @param headers - The request headers
+   * @returns The span context of the caller, or undefined if missing
+   */
+  extract?(headers: Headers): SpanContext | undefined;
+}
+
+const TRACEPARENT = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+const randomHex = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+
+/**
+ * Parses a W3C `traceparent` header.
+ *
+ * @param header - Value of the header
+ * @returns The span context, or undefined if the header is missing or invalid
+ */
+export const parseTraceparent = (
+  header: string | null | undefined,
+): SpanContext | undefined => {
+  const match = TRACEPARENT.exec(header?.trim().toLowerCase() ?? '');
+  if (!match) {
+    return undefined;
+  }
+  const [, version, traceId = '', spanId = '', flags = ''] = match;
+  if (
+    version === 'ff' ||
+    traceId === INVALID_TRACE_ID ||
+    spanId === INVALID_SPAN_ID
+  ) {
+    return undefined;
+  }
+  return { traceId, spanId, traceFlags: Number.parseInt(flags, 16) };
+};
+
+/**
+ * Formats a span context as a W3C `traceparent` header, to propagate it to
+ * other services.
+ *
+ * @param context - The span context
+ * @returns Value of the header
+ *
+ * @example
+ * ```typescript
+ * backgroundTasks.addTask(async () => {
+ *   const span = getTaskContext()?.span;
+ *   await fetch(url, {
+ *     headers: span ? { traceparent: formatTraceparent(span.context) } : {},
+ *   });
+ * });
+ * ```
+ */
+export const formatTraceparent = (context: SpanContext): string =>
+  `00-${context.traceId}-${context.spanId}-${context.traceFlags
+    .toString(16)
+    .padStart(2, '0')}`;
+
+/**
+ * Creates the context of a new span, in the trace of its parent if any.
+ *
+ * @param parent - Context of the parent span (optional)
+ * @returns Context of the new span
+ */
+export const createSpanContext = (parent?: SpanContext): SpanContext => ({
+  traceId: parent?.traceId ?? randomHex(16),
+  spanId: randomHex(8),
+  traceFlags: parent?.traceFlags ?? 1,
+});
+
+/**
+ * Tracer whose spans record nothing. Used when no tracer is configured.
+ */
+export class NoopTracer implements Tracer {
+  public startSpan(
+    _name: string,
+    options: { parent?: SpanContext } = {},
+  ): Span {
+    const context = options.parent ?? {
+      traceId: INVALID_TRACE_ID,
+      spanId: INVALID_SPAN_ID,
+      traceFlags: 0,
+    };
+    return {
+      context,
+      setAttribute: () => {},
+      addEvent: () => {},
+      recordException: () => {},
+      setStatus: () => {},
+      end: () => {},
+    };
+  }
+}
+
+/**
+ * Span recorded by a `MemoryTracer`.
+ */
+export class MemorySpan implements Span {
+  /** Identity of the span */
+  public readonly context: SpanContext;
+  /** Attributes of the span */
+  public readonly attributes: SpanAttributes;
+  /** Events recorded during the span, in order */
+  public readonly events: {
+    name: string;
+    attributes: SpanAttributes;
+    time: number;
+  }[] = [];
+  /** Status of the span, once set */
+  public status?: { code: 'ok' | 'error'; message?: string };
+  /** When the span started, in milliseconds since the epoch */
+  public readonly startTime = Date.now();
+  /** When the span ended, if it has */
+  public endTime?: number;
+
+  /**
+   * Creates a new MemorySpan.
+   *
+   * @param name - Name of the span
+   * @param parent - Context of the parent span (optional)
+   * @param attributes - Initial attributes (optional)
+   */
+  constructor(
+    public readonly name: string,
+    public readonly parent?: SpanContext,
+    attributes: SpanAttributes = {},
+  ) {
+    this.context = createSpanContext(parent);
+    this.attributes = { ...attributes };
+  }
+
+  /** Whether the span has ended */
+  public get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  public setAttribute(key: string, value: string | number | boolean): void {
+    this.attributes[key] = value;
+  }
+
+  public addEvent(name: string, attributes: SpanAttributes = {}): void {
+    this.events.push({ name, attributes, time: Date.now() });
+  }
+
+  public recordException(error: unknown): void {
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message':
+        error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  public setStatus(status: { code: 'ok' | 'error'; message?: string }): void {
+    this.status = status;
+  }
+
+  public end(): void {
+    this.endTime ??= Date.now();
+  }
+}
+
+/**
+ * Tracer keeping its spans in memory, for tests and debugging.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new MemoryTracer();
+ * const app = new Elysia().use(background({ tracer }));
+ *
+ * // After a request
+ * tracer.spans[0]?.attributes['background.task.outcome']; // 'succeeded'
+ * ```
+ */
+export class MemoryTracer implements Tracer {
+  /** Every span started, in order */
+  public readonly spans: MemorySpan[] = [];
+
+  public startSpan(
+    name: string,
+    options: { parent?: SpanContext; attributes?: SpanAttributes } = {},
+  ): MemorySpan {
+    const span = new MemorySpan(name, options.parent, options.attributes);
+    this.spans.push(span);
+    return span;
+  }
+
+  /** Removes every recorded span. */
+  public reset(): void {
+    this.spans.length = 0;
+  }
+}
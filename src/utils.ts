@@ -0,0 +1,43 @@
+/** Longest delay `setTimeout` supports, about 24.8 days */
+export const MAX_TIMER_DELAY = 2_147_483_647;
+
+/**
+ * Waits for the given time, rejecting early with the signal's reason if it aborts.
+ *
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Signal that interrupts the wait
+ * @returns Promise that resolves once the time has elapsed
+ */
+export const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Creates a promise that rejects with the signal's reason once it aborts.
+ *
+ * @param signal - The signal to observe
+ * @returns Promise that never resolves
+ */
+export const rejectOnAbort = (signal: AbortSignal): Promise<never> =>
+  new Promise((_, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal.addEventListener('abort', () => reject(signal.reason), {
+      once: true,
+    });
+  });
@@ -0,0 +1,360 @@
+/**
+ * Worker pool for CPU-heavy synchronous background tasks.
+ * @see https://bun.sh/docs/api/workers
+ */
+
+/**
+ * Source of the worker script. Functions are sent as source code and compiled
+ * once per worker, so they must be self-contained and must not reference
+ * variables from their enclosing scope.
+ */
+const WORKER_SOURCE = `
+const cache = new Map();
+self.onmessage = async ({ data: { id, source, args } }) => {
+  try {
+    let func = cache.get(source);
+    if (!func) {
+      func = (0, eval)('(' + source + ')');
+      cache.set(source, func);
+    }
+    postMessage({ id, result: await func(...args) });
+  } catch (error) {
+    postMessage({
+      id,
+      error:
+        error instanceof Error
+          ? {
+              name: error.name,
+              message:
+                error.name === 'ReferenceError'
+                  ? error.message +
+                    ' (functions run in a worker cannot use variables or imports from their enclosing scope)'
+                  : error.message,
+              stack: error.stack,
+            }
+          : { name: 'Error', message: String(error) },
+    });
+  }
+};
+`;
+
+/** Sources of the functions already checked, by function */
+const sources = new WeakMap<(...args: never[]) => unknown, string>();
+
+/**
+ * Returns the source code of a function to run in a worker, checking that it
+ * can be compiled there on its own.
+ *
+ * @param func - The function to run in a worker
+ * @returns The source code of the function
+ * @throws Error if the function is native or bound, or its source is not a function expression
+ */
+export const getWorkerSource = (
+  func: (...args: never[]) => unknown,
+): string => {
+  const cached = sources.get(func);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const name = func.name || 'anonymous';
+  const source = func.toString();
+  if (source.includes('[native code]')) {
+    throw new Error(
+      `Cannot run "${name}" in a worker: native and bound functions have no source code`,
+    );
+  }
+  try {
+    // Compiles without running the function, as the worker does
+    new Function(`return (${source});`);
+  } catch {
+    throw new Error(
+      `Cannot run "${name}" in a worker: its source is not a function expression. Use a function declaration or an arrow function instead of a method`,
+    );
+  }
+  sources.set(func, source);
+  return source;
+};
+
+type WorkerResponse = {
+  id: number;
+  result?: unknown;
+  error?: { name: string; message: string; stack?: string };
+};
+
+type Job = {
+  id: number;
+  source: string;
+  args: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Configuration options for the worker pool.
+ */
+export type WorkerPoolOptions = {
+  /**
+   * Maximum number of workers running at the same time.
+   * @default navigator.hardwareConcurrency
+   */
+  size?: number;
+};
+
+/**
+ * Options for a single function run in the worker pool.
+ */
+export type WorkerRunOptions = {
+  /**
+   * Aborts the run: a queued job is removed, and the worker running the job
+   * is terminated and replaced, so a hung function does not keep it forever.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * A pool of Bun Workers that runs self-contained functions off the main thread.
+ * Functions are sent to the workers as source code, so they must not use
+ * variables or imports from their enclosing scope, and cannot be methods.
+ * Arguments and return values must be structured-cloneable.
+ *
+ * @example
+ * ```typescript
+ * const pool = new WorkerPool({ size: 2 });
+ *
+ * function fibonacci(n: number): number {
+ *   return n < 2 ? n : fibonacci(n - 1) + fibonacci(n - 2);
+ * }
+ *
+ * app.post('/report', ({ backgroundTasks }) => {
+ *   backgroundTasks.addTask(pool.wrap(fibonacci), 40);
+ *   return { status: 'processing' };
+ * });
+ * ```
+ */
+export class WorkerPool {
+  /** Maximum number of workers */
+  public readonly size: number;
+  /** Workers waiting for a job */
+  private readonly idle: Worker[] = [];
+  /** Jobs currently executing, by worker */
+  private readonly busy = new Map<Worker, Job>();
+  /** Jobs waiting for a free worker */
+  private readonly queue: Job[] = [];
+  /** Object URL of the worker script, created on first use */
+  private url?: string;
+  /** Identifier of the next job */
+  private nextId = 0;
+  /** Whether the pool has been terminated */
+  private terminated = false;
+
+  /**
+   * Creates a new WorkerPool.
+   *
+   * @param options - Configuration options for the pool
+   */
+  constructor(options: WorkerPoolOptions = {}) {
+    this.size = Math.max(1, options.size ?? navigator.hardwareConcurrency);
+  }
+
+  /**
+   * Runs a function in a worker.
+   *
+   * @template P - Parameter types for the function
+   * @template R - Return type of the function
+   * @param func - Self-contained function to execute
+   * @param args - Structured-cloneable arguments to pass to the function
+   * @returns Promise that resolves with the function's return value
+   * @throws Error if the pool has been terminated, the function cannot run in a worker or it throws
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow running functions with any arguments
+  public run<P extends any[], R>(
+    func: (...args: P) => R,
+    ...args: P
+  ): Promise<Awaited<R>>;
+  /**
+   * Runs a function in a worker, with options.
+   *
+   * @template P - Parameter types for the function
+   * @template R - Return type of the function
+   * @param options - Options for the run, such as a signal aborting it
+   * @param func - Self-contained function to execute
+   * @param args - Structured-cloneable arguments to pass to the function
+   * @returns Promise that resolves with the function's return value
+   * @throws Error if the pool has been terminated, the function cannot run in a worker or it throws
+   * @throws The signal's reason if the run is aborted
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow running functions with any arguments
+  public run<P extends any[], R>(
+    options: WorkerRunOptions,
+    func: (...args: P) => R,
+    ...args: P
+  ): Promise<Awaited<R>>;
+  public run(...input: unknown[]): Promise<unknown> {
+    const [{ signal }, func, ...args] = (
+      typeof input[0] === 'function' ? [{}, ...input] : input
+    ) as [WorkerRunOptions, (...args: never[]) => unknown, ...unknown[]];
+    if (this.terminated) {
+      return Promise.reject(new Error('Worker pool has been terminated'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    let source: string;
+    try {
+      source = getWorkerSource(func);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.abort(job, signal?.reason);
+      const job: Job = {
+        id: this.nextId++,
+        source,
+        args,
+        resolve: (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(job);
+      this.drain();
+    });
+  }
+
+  /**
+   * Wraps a function so every call runs in a worker.
+   *
+   * @template P - Parameter types for the function
+   * @template R - Return type of the function
+   * @param func - Self-contained function to execute
+   * @returns Async function with the same parameters
+   * @throws Error if the function cannot run in a worker
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: Allow wrapping functions with any arguments
+  public wrap<P extends any[], R>(
+    func: (...args: P) => R,
+  ): (...args: P) => Promise<Awaited<R>> {
+    getWorkerSource(func);
+    return (...args: P) => this.run(func, ...args);
+  }
+
+  /**
+   * Terminates every worker and rejects queued and running jobs.
+   */
+  public terminate(): void {
+    this.terminated = true;
+
+    const error = new Error('Worker pool has been terminated');
+    for (const [worker, job] of this.busy) {
+      worker.terminate();
+      job.reject(error);
+    }
+    for (const job of this.queue) {
+      job.reject(error);
+    }
+    for (const worker of this.idle) {
+      worker.terminate();
+    }
+
+    this.busy.clear();
+    this.queue.length = 0;
+    this.idle.length = 0;
+    if (this.url) {
+      URL.revokeObjectURL(this.url);
+    }
+  }
+
+  private abort(job: Job, reason: unknown): void {
+    const index = this.queue.indexOf(job);
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+    }
+    for (const [worker, running] of this.busy) {
+      if (running === job) {
+        // A running function cannot be interrupted, so its worker is replaced
+        this.busy.delete(worker);
+        worker.terminate();
+      }
+    }
+    job.reject(reason);
+    if (!this.terminated) {
+      this.drain();
+    }
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const worker = this.acquire();
+      if (!worker) {
+        return;
+      }
+      // biome-ignore lint/style/noNonNullAssertion: Checked by the loop condition
+      const job = this.queue.shift()!;
+      this.busy.set(worker, job);
+      worker.ref();
+      worker.postMessage({ id: job.id, source: job.source, args: job.args });
+    }
+  }
+
+  private acquire(): Worker | undefined {
+    const worker = this.idle.pop();
+    if (worker) {
+      return worker;
+    }
+    if (this.busy.size >= this.size) {
+      return undefined;
+    }
+
+    this.url ??= URL.createObjectURL(
+      new Blob([WORKER_SOURCE], { type: 'application/javascript' }),
+    );
+    const created = new Worker(this.url);
+    created.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+      this.settle(created, data);
+    };
+    created.onerror = (event) => {
+      this.fail(created, event.error ?? new Error(event.message));
+    };
+    return created;
+  }
+
+  private settle(worker: Worker, data: WorkerResponse): void {
+    const job = this.busy.get(worker);
+    // Workers of aborted jobs are terminated and never reused
+    if (!job) {
+      return;
+    }
+    this.busy.delete(worker);
+    if (data.error) {
+      const error = new Error(data.error.message);
+      error.name = data.error.name;
+      error.stack = data.error.stack;
+      job.reject(error);
+    } else {
+      job.resolve(data.result);
+    }
+
+    if (!this.terminated) {
+      // Idle workers should not keep the process alive
+      worker.unref();
+      this.idle.push(worker);
+      this.drain();
+    }
+  }
+
+  private fail(worker: Worker, error: unknown): void {
+    const job = this.busy.get(worker);
+    this.busy.delete(worker);
+    worker.terminate();
+    job?.reject(error);
+    if (!this.terminated) {
+      this.drain();
+    }
+  }
+}
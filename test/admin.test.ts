@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  type AdminAction,
+  background,
+  backgroundAdmin,
+  MemoryDeadLetterStore,
+} from '../src/index';
+import { get, request, sleep } from './utils';
+
+const createApp = (
+  authorize: (action: AdminAction) => boolean = () => true,
+) => {
+  const deadLetter = new MemoryDeadLetterStore();
+  const executed: string[] = [];
+  const syncOrder = async (id: string) => {
+    if (!executed.includes('fixed')) {
+      throw new Error('Order service unavailable');
+    }
+    executed.push(id);
+  };
+  const tasks = background({
+    deadLetter,
+    tasks: { syncOrder },
+    onError: () => {},
+  });
+
+  const app = new Elysia()
+    .use(tasks)
+    .use(
+      backgroundAdmin(tasks.decorator.background, {
+        authorize: ({ action }) => authorize(action),
+      }),
+    )
+    .get('/slow', ({ backgroundTasks }) => {
+      backgroundTasks.addTask({ name: 'slow' }, async () => {
+        await sleep(50);
+        executed.push('slow');
+      });
+      return 'ok';
+    })
+    .get('/fast', ({ backgroundTasks }) => {
+      backgroundTasks.addTask({ name: 'fast' }, async () => {
+        executed.push('fast');
+      });
+      return 'ok';
+    })
+    .get('/order', ({ backgroundTasks }) => {
+      backgroundTasks.addTask(syncOrder, 'order-1');
+      return 'ok';
+    });
+
+  return { app, deadLetter, executed };
+};
+
+describe('Admin routes', () => {
+  it('should guard every route with authorize', async () => {
+    const actions: AdminAction[] = [];
+    const { app } = createApp((action) => {
+      actions.push(action);
+      return action === 'read';
+    });
+
+    const stats = await app.handle(get('/_background/stats'));
+    expect(stats.status).toBe(200);
+
+    const pause = await app.handle(request('POST', '/_background/pause'));
+    expect(pause.status).toBe(403);
+    expect(await pause.json()).toEqual({ error: 'Forbidden' });
+    expect(app.decorator.background.isPaused).toBe(false);
+
+    expect(actions).toEqual(['read', 'pause']);
+  });
+
+  it('should list and cancel unfinished tasks', async () => {
+    const { app } = createApp();
+
+    await app.handle(get('/slow'));
+    await sleep(10);
+
+    const list = await app.handle(get('/_background/tasks'));
+    const [task] = await list.json();
+    expect(task).toMatchObject({ name: 'slow', status: 'running' });
+
+    const found = await app.handle(get(`/_background/tasks/${task.id}`));
+    expect((await found.json()).id).toBe(task.id);
+
+    const cancelled = await app.handle(
+      request('POST', `/_background/tasks/${task.id}/cancel`),
+    );
+    expect(cancelled.status).toBe(200);
+    await sleep(5);
+
+    const missing = await app.handle(get(`/_background/tasks/${task.id}`));
+    expect(missing.status).toBe(404);
+    expect(app.decorator.background.list()).toEqual([]);
+  });
+
+  it('should pause and resume processing', async () => {
+    const { app, executed } = createApp();
+
+    const paused = await app.handle(request('POST', '/_background/pause'));
+    expect(await paused.json()).toMatchObject({ paused: true });
+
+    await app.handle(get('/fast'));
+    await sleep(10);
+    expect(executed).toEqual([]);
+    expect(app.decorator.background.list()).toEqual([
+      expect.objectContaining({ name: 'fast', status: 'pending' }),
+    ]);
+
+    const resumed = await app.handle(request('POST', '/_background/resume'));
+    expect(await resumed.json()).toMatchObject({ paused: false });
+    await sleep(10);
+    expect(executed).toEqual(['fast']);
+  });
+
+  it('should inspect, retry and delete dead letters', async () => {
+    const { app, executed } = createApp();
+
+    await app.handle(get('/order'));
+    await app.handle(get('/order'));
+    await sleep(10);
+
+    const list = await app.handle(get('/_background/dead-letter'));
+    const [first, second] = await list.json();
+    expect(first).toMatchObject({
+      name: 'syncOrder',
+      args: ['order-1'],
+      error: { message: 'Order service unavailable' },
+    });
+
+    const entry = await app.handle(get(`/_background/dead-letter/${first.id}`));
+    expect((await entry.json()).id).toBe(first.id);
+
+    executed.push('fixed');
+    const retried = await app.handle(
+      request('POST', `/_background/dead-letter/${first.id}/retry`),
+    );
+    expect(retried.status).toBe(200);
+    await sleep(10);
+    expect(executed).toEqual(['fixed', 'order-1']);
+
+    const deleted = await app.handle(
+      request('DELETE', `/_background/dead-letter/${second.id}`),
+    );
+    expect(await deleted.json()).toEqual({ deleted: true });
+
+    const empty = await app.handle(get('/_background/dead-letter'));
+    expect(await empty.json()).toEqual([]);
+
+    const missing = await app.handle(
+      request('POST', `/_background/dead-letter/${second.id}/retry`),
+    );
+    expect(missing.status).toBe(404);
+  });
+});
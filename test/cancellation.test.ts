@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  BackgroundTask,
+  BackgroundTaskCancelledError,
+  BackgroundTasks,
+  BackgroundTaskTimeoutError,
+  background,
+  getTaskContext,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Timeouts and cancellation', () => {
+  it('should fail an attempt that exceeds its timeout', async () => {
+    let aborted = false;
+
+    const task = new BackgroundTask({ timeout: 20 }, async () => {
+      const signal = getTaskContext()?.signal;
+      signal?.addEventListener('abort', () => {
+        aborted = true;
+      });
+      await sleep(200);
+    });
+
+    const error = await task.run().catch((error) => error);
+    expect(error).toBeInstanceOf(BackgroundTaskTimeoutError);
+    expect((error as BackgroundTaskTimeoutError).timeout).toBe(20);
+    expect(aborted).toBe(true);
+  });
+
+  it('should retry attempts that time out', async () => {
+    let attempts = 0;
+
+    const task = new BackgroundTask(
+      { timeout: 20, retry: { attempts: 2, delay: 1 } },
+      async () => {
+        attempts++;
+        if (attempts === 1) {
+          await sleep(200);
+        }
+      },
+    );
+
+    await task.run();
+    expect(attempts).toBe(2);
+  });
+
+  it('should expose the task and attempt in the task context', async () => {
+    let context: ReturnType<typeof getTaskContext>;
+
+    const task = new BackgroundTask(async () => {
+      context = getTaskContext();
+    });
+
+    await task.run();
+    expect(context?.task).toBe(task);
+    expect(context?.attempt).toBe(1);
+    expect(context?.signal.aborted).toBe(false);
+    expect(getTaskContext()).toBeUndefined();
+  });
+
+  it('should cancel a running task', async () => {
+    const task = new BackgroundTask(async () => {
+      await sleep(200);
+    });
+
+    const promise = task.run().catch((error) => error);
+    await sleep(10);
+    task.cancel('no longer needed');
+
+    const error = await promise;
+    expect(error).toBeInstanceOf(BackgroundTaskCancelledError);
+    expect((error as BackgroundTaskCancelledError).reason).toBe(
+      'no longer needed',
+    );
+    expect(task.cancelled).toBe(true);
+    expect(task.signal.aborted).toBe(true);
+  });
+
+  it('should skip a cancelled task without stopping the collection', async () => {
+    const executed: number[] = [];
+
+    const tasks = new BackgroundTasks();
+    const first = tasks.addTask(async () => {
+      executed.push(1);
+    });
+    tasks.addTask(async () => {
+      executed.push(2);
+    });
+    first.cancel();
+
+    await tasks.run();
+    expect(executed).toEqual([2]);
+  });
+
+  it('should apply the plugin-wide timeout and report it to onError', async () => {
+    let capturedError: unknown;
+
+    const app = new Elysia()
+      .use(
+        background({
+          timeout: 20,
+          onError: ({ error }) => {
+            capturedError = error;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          await sleep(200);
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(capturedError).toBeInstanceOf(BackgroundTaskTimeoutError);
+  });
+
+  it('should not report cancelled tasks to onError', async () => {
+    let capturedError: unknown;
+    let taskRan = false;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onError: ({ error }) => {
+            capturedError = error;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        const task = backgroundTasks.addTask(async () => {
+          taskRan = true;
+        });
+        task.cancel();
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(taskRan).toBe(false);
+    expect(capturedError).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background, MemoryQueue } from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Run conditions', () => {
+  it('should run tasks of failed requests by default', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(() => {
+          executed.push('audit');
+        });
+        throw new Error('Payment declined');
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(500);
+    await sleep(10);
+
+    expect(executed).toEqual(['audit']);
+  });
+
+  it('should only run tasks of successful requests with the plugin default', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background({ when: 'success' }))
+      .get('/ok', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(() => {
+          executed.push('ok');
+        });
+        return 'ok';
+      })
+      .get('/fail', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(() => {
+          executed.push('fail');
+        });
+        backgroundTasks.addTask({ when: 'always' }, () => {
+          executed.push('audit');
+        });
+        throw new Error('Payment declined');
+      });
+
+    await app.handle(get('/ok'));
+    const response = await app.handle(get('/fail'));
+    expect(response.status).toBe(500);
+    await sleep(10);
+
+    expect(executed).toEqual(['ok', 'audit']);
+  });
+
+  it('should run tasks depending on the response status', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background({ execution: { mode: 'continue-on-error' } }))
+      .get('/', ({ backgroundTasks, query, status }) => {
+        const commit = backgroundTasks.addTask(
+          { when: 'success' },
+          function commit() {
+            executed.push(`commit ${query.id}`);
+          },
+        );
+        backgroundTasks.addTask({ when: 'error' }, () => {
+          executed.push(`compensate ${query.id}`);
+        });
+        backgroundTasks.addTask({ dependsOn: [commit] }, () => {
+          executed.push(`notify ${query.id}`);
+        });
+        return query.id === '1' ? 'ok' : status(422, 'Invalid order');
+      });
+
+    await app.handle(get('/?id=1'));
+    await sleep(10);
+    await app.handle(get('/?id=2'));
+    await sleep(10);
+
+    expect(executed).toEqual(['commit 1', 'notify 1', 'compensate 2']);
+  });
+
+  it('should discard tasks added by the handler', async () => {
+    const executed: string[] = [];
+    let done: Promise<unknown>[] = [];
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        const reserve = backgroundTasks.addTask(function reserve() {
+          executed.push('reserve');
+        });
+        const ship = backgroundTasks.addTask({ dependsOn: [reserve] }, () => {
+          executed.push('ship');
+        });
+        const invoice = backgroundTasks.addTask(() => {
+          executed.push('invoice');
+        });
+
+        expect(backgroundTasks.discard(reserve)).toBe(true);
+        expect(backgroundTasks.discard(reserve)).toBe(false);
+        done = [reserve.done, ship.done];
+        backgroundTasks.clear();
+        expect(backgroundTasks.list()).toEqual([]);
+        expect(invoice.status).toBe('skipped');
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(executed).toEqual([]);
+    expect(await Promise.allSettled(done)).toEqual([
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({
+          message: 'Background task was skipped: discarded from the collection',
+        }),
+      },
+      {
+        status: 'rejected',
+        reason: expect.objectContaining({
+          message: 'Background task was skipped: discarded from the collection',
+        }),
+      },
+    ]);
+  });
+
+  it('should complete persisted tasks skipped by their condition', async () => {
+    const queue = new MemoryQueue();
+    const executed: string[] = [];
+    const chargeCard = async (orderId: string) => {
+      executed.push(orderId);
+    };
+
+    const app = new Elysia()
+      .use(background({ queue, tasks: { chargeCard }, when: 'success' }))
+      .get('/', ({ backgroundTasks, status }) => {
+        backgroundTasks.addTask(chargeCard, 'order-1');
+        return status(500, 'Inventory unavailable');
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(executed).toEqual([]);
+    expect(await queue.pending()).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background, MemoryDeadLetterStore } from '../src/index';
+import { SqliteDeadLetterStore } from '../src/sqlite';
+import { get, sleep } from './utils';
+
+describe('Dead-letter store', () => {
+  it('should record tasks that exhaust their attempts', async () => {
+    const deadLetter = new MemoryDeadLetterStore();
+    const sendEmail = async (to: string) => {
+      throw new TypeError(`Mailbox ${to} is full`);
+    };
+
+    const app = new Elysia()
+      .use(
+        background({
+          deadLetter,
+          requestContext: true,
+          retry: { attempts: 2, delay: 1 },
+          onError: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(
+          { metadata: { userId: 1 } },
+          sendEmail,
+          'user@example.com',
+        );
+        backgroundTasks.addTask(async () => {}).cancel();
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+
+    expect(deadLetter.list()).toEqual([
+      {
+        id: expect.any(String),
+        name: 'sendEmail',
+        args: ['user@example.com'],
+        metadata: { userId: 1 },
+        error: {
+          name: 'TypeError',
+          message: 'Mailbox user@example.com is full',
+        },
+        stack: expect.stringContaining('Mailbox user@example.com is full'),
+        attempts: 2,
+        request: expect.objectContaining({ method: 'GET', path: '/' }),
+        createdAt: expect.any(Number),
+        failedAt: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('should re-enqueue registered tasks and remove them from the store', async () => {
+    const deadLetter = new MemoryDeadLetterStore();
+    const delivered: string[] = [];
+    let available = false;
+
+    const deliverWebhook = async (url: string) => {
+      if (!available) {
+        throw new Error('Service unavailable');
+      }
+      delivered.push(url);
+    };
+
+    const app = new Elysia()
+      .use(
+        background({
+          deadLetter,
+          tasks: { deliverWebhook },
+          onError: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(deliverWebhook, 'https://example.com/hook');
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+    const [entry] = deadLetter.list();
+    expect(entry?.name).toBe('deliverWebhook');
+
+    available = true;
+    const handle = await app.decorator.background.requeue(entry?.id ?? '');
+    await handle.done;
+
+    expect(delivered).toEqual(['https://example.com/hook']);
+    expect(deadLetter.list()).toEqual([]);
+  });
+
+  it('should re-enqueue tasks added with a custom name and their options', async () => {
+    const deadLetter = new SqliteDeadLetterStore(':memory:');
+    const sent: string[] = [];
+    let attempts = 0;
+
+    const sendEmail = async (to: string) => {
+      attempts++;
+      if (attempts < 4) {
+        throw new Error('SMTP unavailable');
+      }
+      sent.push(to);
+    };
+
+    const app = new Elysia()
+      .use(background({ deadLetter, tasks: { sendEmail }, onError: () => {} }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(
+          {
+            name: 'welcomeEmail',
+            retry: { attempts: 2, delay: 1 },
+            timeout: 1000,
+          },
+          sendEmail,
+          'user@example.com',
+        );
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+    const [entry] = deadLetter.list();
+    expect(entry).toMatchObject({
+      name: 'welcomeEmail',
+      registeredName: 'sendEmail',
+      options: {
+        name: 'welcomeEmail',
+        retry: { attempts: 2, delay: 1 },
+        timeout: 1000,
+      },
+    });
+
+    const handle = await app.decorator.background.requeue(entry?.id ?? '');
+    await handle.done;
+
+    expect(handle.name).toBe('welcomeEmail');
+    expect(attempts).toBe(4);
+    expect(sent).toEqual(['user@example.com']);
+    deadLetter.database.close();
+  });
+
+  it('should not re-enqueue unknown or unregistered tasks', async () => {
+    const deadLetter = new MemoryDeadLetterStore();
+
+    const app = new Elysia()
+      .use(background({ deadLetter, onError: () => {} }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async function importFile() {
+          throw new Error('Corrupt file');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+    const [entry] = deadLetter.list();
+
+    await expect(app.decorator.background.requeue('missing')).rejects.toThrow(
+      'No dead-lettered task with id "missing"',
+    );
+    await expect(
+      app.decorator.background.requeue(entry?.id ?? ''),
+    ).rejects.toThrow('Cannot re-enqueue unregistered task "importFile"');
+    expect(deadLetter.get(entry?.id ?? '')).toBeDefined();
+  });
+
+  it('should persist failed tasks to SQLite', async () => {
+    const deadLetter = new SqliteDeadLetterStore(':memory:');
+    const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+    const app = new Elysia()
+      .use(
+        background({
+          deadLetter,
+          execution: { mode: 'continue-on-error' },
+          onError: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        // BigInt arguments cannot be stored as JSON
+        backgroundTasks.addTask(async (_count: bigint) => {
+          throw new Error('Count too large');
+        }, 10n);
+        backgroundTasks.addTask(
+          { name: 'resize', metadata: { size: 'large' } },
+          async (_path: string) => {
+            throw new Error('Out of memory');
+          },
+          '/tmp/image.png',
+        );
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(deadLetter.list()).toEqual([
+      expect.objectContaining({
+        name: 'resize',
+        args: ['/tmp/image.png'],
+        metadata: { size: 'large' },
+        error: { name: 'Error', message: 'Out of memory' },
+        attempts: 1,
+        request: undefined,
+      }),
+    ]);
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[elysia-background] Failed to record dead letter:',
+      expect.any(TypeError),
+    );
+
+    const [entry] = deadLetter.list();
+    expect(deadLetter.delete(entry?.id ?? '')).toBe(true);
+    expect(deadLetter.get(entry?.id ?? '')).toBeUndefined();
+
+    errorSpy.mockRestore();
+    deadLetter.database.close();
+  });
+});
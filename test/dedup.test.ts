@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { type BackgroundTaskHandle, background } from '../src/index';
+import { SqliteQueue } from '../src/sqlite';
+import { get, sleep } from './utils';
+
+describe('Task deduplication', () => {
+  it('should skip tasks whose key is held within the window', async () => {
+    const sent: string[] = [];
+    const deduplicated: string[] = [];
+    const handles: BackgroundTaskHandle[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          onTaskDeduplicated: ({ task, key, originalId }) => {
+            deduplicated.push(key);
+            expect(originalId).toBe(handles[0]?.id ?? '');
+            expect(task.id).toBe(handles[1]?.id ?? '');
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        handles.push(
+          backgroundTasks.addTask({ key: 'welcome:1' }, async () => {
+            sent.push('welcome');
+          }),
+        );
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await app.handle(get('/'));
+    await sleep(20);
+
+    expect(sent).toEqual(['welcome']);
+    expect(deduplicated).toEqual(['welcome:1']);
+    expect(handles.map((handle) => handle.status)).toEqual([
+      'succeeded',
+      'skipped',
+    ]);
+    await expect(handles[1]?.done).rejects.toThrow('duplicate of task');
+  });
+
+  it('should run a task again once the window has elapsed', async () => {
+    let runs = 0;
+
+    const app = new Elysia()
+      .use(background({ deduplication: { window: 20 } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ key: 'report' }, async () => {
+          runs++;
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(5);
+    await app.handle(get('/'));
+    await sleep(30);
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(runs).toBe(2);
+  });
+
+  it('should settle coalesced tasks with the original result', async () => {
+    let runs = 0;
+    const handles: BackgroundTaskHandle<number>[] = [];
+
+    const app = new Elysia()
+      .use(background({ deduplication: { strategy: 'coalesce' } }))
+      .get('/', ({ backgroundTasks }) => {
+        handles.push(
+          backgroundTasks.addTask({ key: 'import' }, async () => {
+            await sleep(20);
+            return ++runs;
+          }),
+        );
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await app.handle(get('/'));
+
+    expect(await Promise.all(handles.map((handle) => handle.done))).toEqual([
+      1, 1,
+    ]);
+    expect(handles.map((handle) => handle.status)).toEqual([
+      'succeeded',
+      'succeeded',
+    ]);
+    expect(runs).toBe(1);
+  });
+
+  it('should free the queue slots of duplicate tasks', async () => {
+    let runs = 0;
+
+    const app = new Elysia()
+      .use(
+        background({
+          scheduler: { maxQueueSize: 1 },
+          deduplication: { strategy: 'coalesce' },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ key: 'k' }, async () => {
+          await sleep(5);
+          runs++;
+        });
+        return 'ok';
+      });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await app.handle(get('/'))).status).toBe(200);
+      await sleep(1);
+    }
+    await sleep(20);
+
+    expect(runs).toBe(1);
+    expect(app.decorator.background.metrics.queued).toBe(0);
+    expect((await app.handle(get('/'))).status).toBe(200);
+  });
+
+  it('should deduplicate across apps sharing a queue backend', async () => {
+    const queue = new SqliteQueue(':memory:');
+    const originals: unknown[] = [];
+    let runs = 0;
+
+    const createApp = () =>
+      new Elysia()
+        .use(
+          background({
+            queue,
+            onTaskDeduplicated: ({ original }) => {
+              originals.push(original);
+            },
+          }),
+        )
+        .get('/', ({ backgroundTasks }) => {
+          backgroundTasks.addTask({ key: 'welcome:1' }, async () => {
+            runs++;
+          });
+          return 'ok';
+        });
+
+    await createApp().handle(get('/'));
+    await sleep(10);
+    await createApp().handle(get('/'));
+    await sleep(10);
+
+    expect(runs).toBe(1);
+    expect(originals).toEqual([undefined]);
+    queue.close();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  type BackgroundTaskHandle,
+  BackgroundTasks,
+  background,
+  MemoryQueue,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Delayed tasks', () => {
+  it('should run a task once its delay has elapsed', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ delay: 50 }, async () => {
+          executed.push('reminder');
+        });
+        backgroundTasks.addTask(async () => {
+          executed.push('immediate');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+    expect(executed).toEqual(['immediate']);
+    expect(app.decorator.background.scheduled).toBe(1);
+
+    await sleep(60);
+    expect(executed).toEqual(['immediate', 'reminder']);
+    expect(app.decorator.background.scheduled).toBe(0);
+  });
+
+  it('should run a task at the given time', async () => {
+    let ranAt = 0;
+    const runAt = new Date(Date.now() + 40);
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        const handle = backgroundTasks.addTask({ runAt }, async () => {
+          ranAt = Date.now();
+        });
+        return { runAt: handle.toJSON().runAt };
+      });
+
+    const response = await app.handle(get('/'));
+    expect(await response.json()).toEqual({ runAt: runAt.getTime() });
+
+    await sleep(80);
+    expect(ranAt).toBeGreaterThanOrEqual(runAt.getTime());
+  });
+
+  it('should not run a delayed task cancelled through its handle', async () => {
+    let executed = false;
+    let handle: BackgroundTaskHandle | undefined;
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        handle = backgroundTasks.addTask({ delay: 30 }, async () => {
+          executed = true;
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+    handle?.cancel();
+    expect(app.decorator.background.scheduled).toBe(0);
+
+    await sleep(40);
+    expect(executed).toBe(false);
+    expect(handle?.status).toBe('cancelled');
+  });
+
+  it('should not hold a queue slot while waiting', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background({ scheduler: { maxQueueSize: 1 } }))
+      .get('/', ({ backgroundTasks, query }) => {
+        backgroundTasks.addTask({ delay: Number(query.delay) }, async () => {
+          executed.push(query.delay ?? '');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/?delay=40'));
+    await sleep(10);
+    expect(app.decorator.background.metrics.queued).toBe(0);
+
+    const response = await app.handle(get('/?delay=0'));
+    expect(response.status).toBe(200);
+    await sleep(50);
+
+    expect(executed).toEqual(['0', '40']);
+    expect(app.decorator.background.metrics.queued).toBe(0);
+  });
+
+  it('should wait for delayed tasks in a standalone collection', async () => {
+    const tasks = new BackgroundTasks();
+    const start = Date.now();
+    tasks.addTask({ delay: 30 }, async () => {});
+
+    await tasks.run();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(30);
+  });
+
+  it('should abandon and keep persisted delayed tasks on shutdown', async () => {
+    const queue = new MemoryQueue();
+    const abandoned: string[] = [];
+    const sendReminder = async (to: string) => to;
+
+    const app = new Elysia()
+      .use(
+        background({
+          queue,
+          tasks: { sendReminder },
+          onAbandon: ({ tasks }) => {
+            abandoned.push(...tasks.map((task) => task.name));
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(
+          { delay: 60_000 },
+          sendReminder,
+          'user@example.com',
+        );
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    const start = performance.now();
+    await app.decorator.background.shutdown();
+    expect(performance.now() - start).toBeLessThan(100);
+    expect(abandoned).toEqual(['sendReminder']);
+
+    await sleep(10);
+    expect(queue.pending()).toEqual([
+      expect.objectContaining({
+        name: 'sendReminder',
+        runAt: expect.any(Number),
+      }),
+    ]);
+  });
+});
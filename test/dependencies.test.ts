@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  BackgroundTaskSkippedError,
+  BackgroundTasks,
+  BackgroundTasksError,
+  background,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Task dependencies', () => {
+  it('should pass upstream results to dependent tasks', async () => {
+    const sent: string[] = [];
+
+    const tasks = new BackgroundTasks([], { mode: 'dag' });
+    const pdf = tasks.addTask(async (id: number) => `report-${id}.pdf`, 42);
+    tasks.addTask(
+      { dependsOn: [pdf] },
+      async (file, to: string) => {
+        sent.push(`${file} -> ${to}`);
+      },
+      'user@example.com',
+    );
+
+    await tasks.run();
+    expect(sent).toEqual(['report-42.pdf -> user@example.com']);
+  });
+
+  it('should run independent branches concurrently in dag mode', async () => {
+    const events: string[] = [];
+    const step = (name: string, ms: number) => async () => {
+      events.push(`start ${name}`);
+      await sleep(ms);
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const tasks = new BackgroundTasks([], { mode: 'dag' });
+    const pdf = tasks.addTask(step('pdf', 30));
+    tasks.addTask({ dependsOn: [pdf] }, step('email', 10));
+    tasks.addTask(step('index', 10));
+
+    await tasks.run();
+    expect(events).toEqual([
+      'start pdf',
+      'start index',
+      'end index',
+      'end pdf',
+      'start email',
+      'end email',
+    ]);
+  });
+
+  it('should skip dependents when an upstream task fails', async () => {
+    const executed: string[] = [];
+
+    const tasks = new BackgroundTasks([], { mode: 'dag' });
+    const pdf = tasks.addTask(async function generatePdf() {
+      throw new Error('pdf failed');
+    });
+    const email = tasks.addTask({ dependsOn: [pdf] }, async () => {
+      executed.push('email');
+    });
+    const archive = tasks.addTask({ dependsOn: [email] }, async () => {
+      executed.push('archive');
+    });
+    tasks.addTask(async () => {
+      executed.push('index');
+    });
+
+    const error = await tasks.run().catch((error) => error);
+    expect(error).toBeInstanceOf(BackgroundTasksError);
+    expect((error as BackgroundTasksError).errors).toHaveLength(1);
+    expect((error as BackgroundTasksError).skipped).toEqual([email, archive]);
+    expect((error as Error).message).toBe(
+      '1 background task(s) failed, 2 skipped',
+    );
+    expect(executed).toEqual(['index']);
+    expect(email.status).toBe('skipped');
+    expect(archive.status).toBe('skipped');
+
+    const skipError = await email.done.catch((error) => error);
+    expect(skipError).toBeInstanceOf(BackgroundTaskSkippedError);
+    expect((skipError as BackgroundTaskSkippedError).reason).toBe(
+      'dependency "generatePdf" failed',
+    );
+  });
+
+  it('should wait for dependencies in parallel mode', async () => {
+    const tasks = new BackgroundTasks([], { mode: 'parallel' });
+    const slow = tasks.addTask(async () => {
+      await sleep(20);
+      return 1;
+    });
+    const dependent = tasks.addTask(
+      { dependsOn: [slow] },
+      async (value) => value + 1,
+    );
+
+    await tasks.run();
+    expect(dependent.result).toBe(2);
+    expect(dependent.toJSON().dependsOn).toEqual([slow.id]);
+  });
+
+  it('should reject dependencies from another collection', () => {
+    const other = new BackgroundTasks();
+    const handle = other.addTask(async function upstream() {});
+
+    const tasks = new BackgroundTasks();
+    expect(() =>
+      tasks.addTask({ dependsOn: [handle] }, async () => {}),
+    ).toThrow(
+      'Dependency "upstream" must be added to the same collection first',
+    );
+  });
+
+  it('should report only the upstream failure to onError', async () => {
+    const errors: unknown[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          execution: { mode: 'dag' },
+          onError: ({ error }) => {
+            errors.push(error);
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        const pdf = backgroundTasks.addTask(async () => {
+          throw new Error('pdf failed');
+        });
+        backgroundTasks.addTask({ dependsOn: [pdf] }, async () => {});
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as Error).message).toBe('pdf failed');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  BackgroundTaskError,
+  BackgroundTasks,
+  BackgroundTasksError,
+  background,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Execution modes', () => {
+  it('should stop at the first failure in sequential mode', async () => {
+    const executed: number[] = [];
+
+    const tasks = new BackgroundTasks();
+    tasks.addTask(async () => {
+      executed.push(1);
+      throw new Error('first failed');
+    });
+    tasks.addTask(async () => {
+      executed.push(2);
+    });
+
+    const error = await tasks.run().catch((error) => error);
+    expect(error).toBeInstanceOf(BackgroundTaskError);
+    expect(executed).toEqual([1]);
+  });
+
+  it('should run every task in continue-on-error mode', async () => {
+    const executed: number[] = [];
+
+    const tasks = new BackgroundTasks([], { mode: 'continue-on-error' });
+    tasks.addTask(async () => {
+      executed.push(1);
+      throw new Error('first failed');
+    });
+    tasks.addTask(async () => {
+      executed.push(2);
+    });
+    tasks.addTask(async () => {
+      executed.push(3);
+      throw new Error('third failed');
+    });
+
+    const error = await tasks.run().catch((error) => error);
+    expect(error).toBeInstanceOf(BackgroundTasksError);
+    expect(
+      (error as BackgroundTasksError).errors.map(
+        ({ error }) => (error as Error).message,
+      ),
+    ).toEqual(['first failed', 'third failed']);
+    expect(executed).toEqual([1, 2, 3]);
+  });
+
+  it('should run tasks concurrently in parallel mode', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(20);
+      running--;
+    };
+
+    const tasks = new BackgroundTasks([], { mode: 'parallel', concurrency: 2 });
+    for (let i = 0; i < 5; i++) {
+      tasks.addTask(task);
+    }
+
+    await tasks.run();
+    expect(maxRunning).toBe(2);
+    expect(tasks.pending).toHaveLength(0);
+  });
+
+  it('should run every task concurrently without a concurrency limit', async () => {
+    const startTime = Date.now();
+
+    const tasks = new BackgroundTasks([], { mode: 'parallel' });
+    for (let i = 0; i < 5; i++) {
+      tasks.addTask(() => sleep(50));
+    }
+
+    await tasks.run();
+    expect(Date.now() - startTime).toBeLessThan(150);
+  });
+
+  it('should report every failed task to onError', async () => {
+    const capturedErrors: unknown[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          execution: { mode: 'parallel' },
+          onError: ({ error }) => {
+            capturedErrors.push(error);
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          throw new Error('email failed');
+        });
+        backgroundTasks.addTask(async () => {
+          throw new Error('analytics failed');
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(
+      capturedErrors.map((error) => (error as Error).message).sort(),
+    ).toEqual(['analytics failed', 'email failed']);
+  });
+
+  it('should allow overriding the mode per request', async () => {
+    let taskCounter = 0;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onError: () => {}, // suppress error for testing
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.configure({ mode: 'continue-on-error' });
+        backgroundTasks.addTask(async () => {
+          taskCounter += 1;
+          throw new Error('task failed');
+        });
+        backgroundTasks.addTask(async () => {
+          taskCounter += 1;
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(taskCounter).toBe(2);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  BackgroundTaskCancelledError,
+  type BackgroundTaskHandle,
+  BackgroundTaskSkippedError,
+  BackgroundTasks,
+  background,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Task handles', () => {
+  it('should resolve done with the task result', async () => {
+    const tasks = new BackgroundTasks();
+    const handle = tasks.addTask(async (a: number, b: number) => a + b, 1, 2);
+    expect(handle.status).toBe('pending');
+
+    void tasks.run();
+    expect(await handle.done).toBe(3);
+    expect(handle.status).toBe('succeeded');
+    expect(handle.result).toBe(3);
+  });
+
+  it('should reject done with the task error', async () => {
+    const tasks = new BackgroundTasks();
+    const handle = tasks.addTask(async () => {
+      throw new Error('task failed');
+    });
+
+    void tasks.run().catch(() => {});
+    await expect(handle.done).rejects.toThrow('task failed');
+    expect(handle.status).toBe('failed');
+  });
+
+  it('should reject done when the task is cancelled', async () => {
+    const tasks = new BackgroundTasks();
+    const handle = tasks.addTask(async () => {
+      await sleep(100);
+    });
+
+    void tasks.run();
+    await sleep(10);
+    handle.cancel();
+
+    const error = await handle.done.catch((error) => error);
+    expect(error).toBeInstanceOf(BackgroundTaskCancelledError);
+    expect(handle.status).toBe('cancelled');
+  });
+
+  it('should reject done for tasks skipped after an earlier failure', async () => {
+    const tasks = new BackgroundTasks();
+    tasks.addTask(async () => {
+      throw new Error('task failed');
+    });
+    const skipped = tasks.addTask(async () => {});
+
+    await tasks.run().catch(() => {});
+
+    const error = await skipped.done.catch((error) => error);
+    expect(error).toBeInstanceOf(BackgroundTaskSkippedError);
+    expect(skipped.status).toBe('skipped');
+  });
+
+  it('should not cause unhandled rejections when done is not awaited', async () => {
+    let unhandled = false;
+    const onUnhandled = () => {
+      unhandled = true;
+    };
+    process.on('unhandledRejection', onUnhandled);
+
+    const tasks = new BackgroundTasks();
+    tasks.addTask(async () => {
+      throw new Error('task failed');
+    });
+    await tasks.run().catch(() => {});
+    await sleep(10);
+
+    process.off('unhandledRejection', onUnhandled);
+    expect(unhandled).toBe(false);
+  });
+
+  it('should let tests await tasks added in a handler without sleeping', async () => {
+    let handle: BackgroundTaskHandle<string> | undefined;
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        handle = backgroundTasks.addTask(async (name: string) => {
+          await sleep(10);
+          return `Hello ${name}`;
+        }, 'World');
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(await response.text()).toBe('task initiated');
+    expect(handle?.status).toBe('pending');
+
+    expect(await handle?.done).toBe('Hello World');
+  });
+});
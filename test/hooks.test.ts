@@ -0,0 +1,179 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { BackgroundTasks, background } from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Lifecycle hooks', () => {
+  it('should call hooks around each task and the batch', async () => {
+    const events: string[] = [];
+    let successDuration = 0;
+    let batchTaskCount = 0;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onTaskStart: ({ args }) => {
+            events.push(`start:${args[0]}`);
+          },
+          onTaskSuccess: ({ args, duration }) => {
+            events.push(`success:${args[0]}`);
+            successDuration = duration;
+          },
+          onTaskFinish: ({ args, outcome }) => {
+            events.push(`finish:${args[0]}:${outcome}`);
+          },
+          onBatchFinish: ({ tasks }) => {
+            events.push('batch');
+            batchTaskCount = tasks.length;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async (_id: string) => {
+          await sleep(20);
+        }, 'first');
+        backgroundTasks.addTask(async (_id: string) => {}, 'second');
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(events).toEqual([
+      'start:first',
+      'success:first',
+      'finish:first:succeeded',
+      'start:second',
+      'success:second',
+      'finish:second:succeeded',
+      'batch',
+    ]);
+    expect(successDuration).toBeGreaterThanOrEqual(0);
+    expect(batchTaskCount).toBe(2);
+  });
+
+  it('should report failures to onTaskFinish and onBatchFinish', async () => {
+    let finishEvent: { outcome: string; error?: unknown } | undefined;
+    let batchErrors: unknown[] = [];
+    let successCalled = false;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onError: () => {}, // suppress error for testing
+          onTaskSuccess: () => {
+            successCalled = true;
+          },
+          onTaskFinish: ({ outcome, error }) => {
+            finishEvent = { outcome, error };
+          },
+          onBatchFinish: ({ errors }) => {
+            batchErrors = errors;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          throw new Error('task failed');
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(successCalled).toBe(false);
+    expect(finishEvent?.outcome).toBe('failed');
+    expect((finishEvent?.error as Error).message).toBe('task failed');
+    expect(batchErrors).toHaveLength(1);
+  });
+
+  it('should pass the originating request context to hooks', async () => {
+    let path: string | undefined;
+    let userAgent: string | null | undefined;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onTaskStart: ({ context }) => {
+            path = context?.path;
+            userAgent = context?.request.headers.get('user-agent');
+          },
+        }),
+      )
+      .get('/users/:id', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {});
+        return 'task initiated';
+      });
+
+    const response = await app.handle(
+      new Request('http://localhost/users/42', {
+        headers: { 'user-agent': 'bun-test' },
+      }),
+    );
+    expect(response.status).toBe(200);
+
+    await sleep(50);
+    expect(path).toBe('/users/42');
+    expect(userAgent).toBe('bun-test');
+  });
+
+  it('should keep running tasks when a hook throws', async () => {
+    const consoleSpy = spyOn(console, 'error').mockImplementation(() => {});
+    const hookError = new Error('hook failed');
+    let taskComplete = false;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onTaskStart: () => {
+            throw hookError;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          taskComplete = true;
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(50);
+    expect(taskComplete).toBe(true);
+    expect(consoleSpy.mock.calls[0]).toEqual([
+      '[elysia-background] Task start handler failed:',
+      hookError,
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should not call hooks for tasks cancelled before they started', async () => {
+    const events: string[] = [];
+    const backgroundTasks = new BackgroundTasks([], {
+      hooks: {
+        onTaskStart: ({ task }) => {
+          events.push(`start ${task.name}`);
+        },
+        onTaskFinish: ({ task, outcome }) => {
+          events.push(`finish ${task.name} ${outcome}`);
+        },
+      },
+    });
+
+    const cancelled = backgroundTasks.addTask(async function cancelled() {});
+    backgroundTasks.addTask(async function kept() {});
+    cancelled.cancel();
+    await backgroundTasks.run();
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(events).toEqual(['start kept', 'finish kept succeeded']);
+  });
+});
@@ -2,7 +2,7 @@ import { describe, expect, it, spyOn } from 'bun:test';
 
 import { Elysia } from 'elysia';
 
-import { background } from '../src/index';
+import { BackgroundTask, background } from '../src/index';
 import { get, sleep } from './utils';
 
 describe('BackgroundTasks', () => {
@@ -28,26 +28,65 @@ describe('BackgroundTasks', () => {
     expect(taskComplete).toBe(true);
   });
 
-  // NOTE: currently, sync tasks are not supported
-  // it('should execute sync task successfully', async () => {
-  //     let taskComplete = false;
-  //
-  //     const syncTask = () => {
-  //         taskComplete = true;
-  //     };
-  //
-  //     const app = new Elysia()
-  //         .use(background())
-  //         .get('/', ({ backgroundTasks }) => {
-  //             backgroundTasks.addTask(syncTask);
-  //             return 'task initiated';
-  //         });
-  //
-  //     const response = await app.handle(get('/'));
-  //     expect(response.status).toBe(200);
-  //     expect(await response.text()).toBe('task initiated');
-  //     expect(taskComplete).toBe(true);
-  // });
+  it('should execute sync task successfully', async () => {
+    let taskComplete = false;
+
+    const syncTask = () => {
+      taskComplete = true;
+    };
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(syncTask);
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('task initiated');
+
+    await sleep(100);
+    expect(taskComplete).toBe(true);
+  });
+
+  it('should execute promise-returning task successfully', async () => {
+    let taskComplete = false;
+
+    const promiseTask = () =>
+      sleep(10).then(() => {
+        taskComplete = true;
+      });
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(promiseTask);
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(taskComplete).toBe(true);
+  });
+
+  it('should defer sync task to a later macrotask', async () => {
+    let taskComplete = false;
+
+    const task = new BackgroundTask(() => {
+      taskComplete = true;
+    });
+    expect(task.isAsync).toBe(false);
+
+    const promise = task.run();
+    await Promise.resolve();
+    expect(taskComplete).toBe(false);
+
+    await promise;
+    expect(taskComplete).toBe(true);
+  });
 
   it('should execute multiple tasks successfully', async () => {
     let taskCounter = 0;
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  BackgroundTask,
+  BackgroundTaskError,
+  BackgroundTasks,
+  background,
+  type TaskInfo,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Task introspection', () => {
+  it('should name tasks after their function by default', () => {
+    async function sendWelcomeEmail() {}
+
+    expect(new BackgroundTask(sendWelcomeEmail).name).toBe('sendWelcomeEmail');
+    expect(new BackgroundTask(async () => {}).name).toBe('anonymous');
+    expect(new BackgroundTask({ name: 'custom' }, sendWelcomeEmail).name).toBe(
+      'custom',
+    );
+  });
+
+  it('should give every task a unique id', () => {
+    const first = new BackgroundTask(async () => {});
+    const second = new BackgroundTask(async () => {});
+
+    expect(first.id).toBeString();
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('should track status, timestamps and attempts', async () => {
+    const task = new BackgroundTask(
+      { retry: { attempts: 2, delay: 1 } },
+      async () => {
+        if (task.attempts === 1) {
+          throw new Error('flaky');
+        }
+        expect(task.status).toBe('running');
+      },
+    );
+    expect(task.status).toBe('pending');
+    expect(task.startedAt).toBeUndefined();
+
+    await task.run();
+    expect(task.status).toBe('succeeded');
+    expect(task.attempts).toBe(2);
+    expect(task.startedAt).toBeGreaterThanOrEqual(task.createdAt);
+    expect(task.finishedAt).toBeGreaterThanOrEqual(task.startedAt ?? 0);
+  });
+
+  it('should mark failed and cancelled tasks', async () => {
+    const failing = new BackgroundTask(async () => {
+      throw new Error('task failed');
+    });
+    await failing.run().catch(() => {});
+    expect(failing.status).toBe('failed');
+
+    const cancelled = new BackgroundTask(async () => {});
+    cancelled.cancel();
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.finishedAt).toBeNumber();
+
+    const finished = new BackgroundTask(async () => {});
+    await finished.run();
+    finished.cancel();
+    expect(finished.status).toBe('succeeded');
+    expect(finished.cancelled).toBe(false);
+  });
+
+  it('should list the tasks of a collection with their statuses', async () => {
+    const tasks = new BackgroundTasks();
+    tasks.addTask(
+      { name: 'sendEmail', metadata: { template: 'welcome' } },
+      async () => {},
+    );
+    tasks.addTask({ name: 'trackSignup' }, async () => {
+      throw new Error('task failed');
+    });
+    tasks.addTask({ name: 'invalidateCache' }, async () => {});
+
+    await tasks.run().catch(() => {});
+
+    const list: TaskInfo[] = tasks.list();
+    expect(list.map(({ name, status }) => ({ name, status }))).toEqual([
+      { name: 'sendEmail', status: 'succeeded' },
+      { name: 'trackSignup', status: 'failed' },
+      { name: 'invalidateCache', status: 'skipped' },
+    ]);
+    expect(list[0]?.metadata).toEqual({ template: 'welcome' });
+    expect(JSON.parse(JSON.stringify(tasks.list()))).toHaveLength(3);
+  });
+
+  it('should include the task name in error reports', async () => {
+    let capturedTask: BackgroundTask<unknown[]> | undefined;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onError: ({ task }) => {
+            capturedTask = task;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ name: 'sendEmail' }, async () => {
+          throw new Error('smtp unavailable');
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(50);
+    expect(capturedTask?.name).toBe('sendEmail');
+    expect(
+      capturedTask && new BackgroundTaskError(null, capturedTask).message,
+    ).toBe('Background task "sendEmail" failed');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background, CronExpression } from '../src/index';
+import { sleep } from './utils';
+
+describe('Recurring jobs', () => {
+  it('should run interval jobs while the app is running', async () => {
+    const started: string[] = [];
+    let runs = 0;
+
+    const app = new Elysia().use(
+      background({
+        jobs: [
+          {
+            name: 'cleanup',
+            interval: 20,
+            handler: () => {
+              runs++;
+            },
+          },
+        ],
+        onTaskStart: ({ task }) => {
+          started.push(task.name);
+        },
+      }),
+    );
+
+    app.listen(0);
+    await sleep(70);
+    await app.stop();
+    const runsAtStop = runs;
+
+    expect(runs).toBeGreaterThanOrEqual(2);
+    expect(started).toEqual(Array(runs).fill('cleanup'));
+
+    await sleep(40);
+    expect(runs).toBe(runsAtStop);
+  });
+
+  it('should not overlap runs of the same job', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    let runs = 0;
+
+    const app = new Elysia().use(
+      background({
+        jobs: [
+          {
+            name: 'report',
+            interval: 10,
+            handler: async () => {
+              runs++;
+              running++;
+              maxRunning = Math.max(maxRunning, running);
+              await sleep(35);
+              running--;
+            },
+          },
+        ],
+      }),
+    );
+
+    app.decorator.background.jobs.start();
+    await sleep(60);
+    expect(app.decorator.background.jobs.list()).toEqual([
+      { name: 'report', running: true, nextRunAt: expect.any(Number) },
+    ]);
+    await app.decorator.background.shutdown();
+
+    expect(maxRunning).toBe(1);
+    expect(runs).toBeLessThanOrEqual(2);
+  });
+
+  it('should retry failed runs and report them to onError', async () => {
+    const errors: unknown[] = [];
+    let attempts = 0;
+
+    const app = new Elysia().use(
+      background({
+        jobs: [
+          {
+            name: 'sync',
+            interval: 10,
+            retry: { attempts: 2, delay: 1 },
+            handler: async () => {
+              attempts++;
+              throw new Error('sync failed');
+            },
+          },
+        ],
+        onError: ({ error, task }) => {
+          errors.push([task?.name, (error as Error).message]);
+        },
+      }),
+    );
+
+    app.decorator.background.jobs.start();
+    await sleep(15);
+    await app.decorator.background.shutdown();
+
+    expect(attempts).toBe(2);
+    expect(errors).toEqual([['sync', 'sync failed']]);
+  });
+
+  it('should reject invalid job definitions', () => {
+    expect(() =>
+      background({ jobs: [{ name: 'nothing', handler: () => {} }] }),
+    ).toThrow(
+      'Recurring job "nothing" needs either a cron expression or an interval',
+    );
+    expect(() =>
+      background({
+        jobs: [{ name: 'bad', cron: '61 * * * *', handler: () => {} }],
+      }),
+    ).toThrow('Invalid cron expression "61 * * * *"');
+  });
+});
+
+describe('CronExpression', () => {
+  const from = new Date(2026, 0, 15, 10, 7, 30);
+
+  it('should find the next matching minute', () => {
+    expect(new CronExpression('*/15 * * * *').next(from)).toEqual(
+      new Date(2026, 0, 15, 10, 15),
+    );
+    expect(new CronExpression('0 9 * * mon-fri').next(from)).toEqual(
+      new Date(2026, 0, 16, 9, 0),
+    );
+    expect(new CronExpression('@monthly').next(from)).toEqual(
+      new Date(2026, 1, 1, 0, 0),
+    );
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 20th, or any Sunday
+    expect(new CronExpression('0 0 20 * sun').next(from)).toEqual(
+      new Date(2026, 0, 18, 0, 0),
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background, type LogFields, type Logger } from '../src/index';
+import { get, sleep } from './utils';
+
+const createLogger = () => {
+  const entries: { level: string; message: string; fields: LogFields }[] = [];
+  const write =
+    (level: string) =>
+    (fields: LogFields, message: string): void => {
+      entries.push({ level, message, fields });
+    };
+  const logger: Logger = {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+  return { logger, entries };
+};
+
+describe('Logger', () => {
+  it('should log task outcomes with structured fields', async () => {
+    const { logger, entries } = createLogger();
+    const error = new Error('Mailbox is full');
+
+    const app = new Elysia()
+      .use(background({ logger, requestContext: true }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async function resizeImage() {});
+        backgroundTasks.addTask(async function sendEmail() {
+          throw error;
+        });
+        return 'ok';
+      });
+
+    const request = get('/');
+    request.headers.set('x-request-id', 'req-1');
+    await app.handle(request);
+    await sleep(10);
+
+    expect(entries).toEqual([
+      {
+        level: 'info',
+        message: 'Task succeeded',
+        fields: {
+          taskId: expect.any(String),
+          taskName: 'resizeImage',
+          requestId: 'req-1',
+          attempt: 1,
+          duration: expect.any(Number),
+        },
+      },
+      {
+        level: 'error',
+        message: 'Task failed',
+        fields: {
+          taskId: expect.any(String),
+          taskName: 'sendEmail',
+          requestId: 'req-1',
+          attempt: 1,
+          duration: expect.any(Number),
+          err: error,
+        },
+      },
+    ]);
+  });
+
+  it('should log every lifecycle event at the configured level', async () => {
+    const { logger, entries } = createLogger();
+
+    const app = new Elysia()
+      .use(
+        background({
+          logger,
+          logLevel: 'debug',
+          retry: { attempts: 2, delay: 1 },
+          onError: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        let attempts = 0;
+        backgroundTasks.addTask({ name: 'sync' }, async () => {
+          if (++attempts === 1) {
+            throw new Error('Service unavailable');
+          }
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+
+    expect(entries.map(({ level, message }) => `${level} ${message}`)).toEqual([
+      'debug Task enqueued',
+      'debug Task started',
+      'warn Task attempt failed, retrying',
+      'info Task succeeded',
+    ]);
+    expect(entries[2]?.fields).toMatchObject({
+      taskName: 'sync',
+      attempt: 1,
+      delay: 1,
+      err: expect.objectContaining({ message: 'Service unavailable' }),
+    });
+    expect(entries[3]?.fields).toMatchObject({ attempt: 2 });
+  });
+
+  it('should log failures along with the error handler', async () => {
+    const { logger, entries } = createLogger();
+    const failed: string[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          logger,
+          onError: ({ task }) => {
+            failed.push(task?.name ?? '');
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async function sendEmail() {
+          throw new Error('Mailbox is full');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(failed).toEqual(['sendEmail']);
+    expect(entries).toEqual([
+      {
+        level: 'error',
+        message: 'Task failed',
+        fields: expect.objectContaining({
+          taskName: 'sendEmail',
+          attempt: 1,
+          err: expect.objectContaining({ message: 'Mailbox is full' }),
+        }),
+      },
+    ]);
+  });
+
+  it('should fall back to the console for failures only', async () => {
+    const errorSpy = spyOn(console, 'error').mockImplementation(() => {});
+    const infoSpy = spyOn(console, 'info').mockImplementation(() => {});
+    const error = new Error('Task error');
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {});
+        backgroundTasks.addTask(async () => {
+          throw error;
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(infoSpy).not.toHaveBeenCalled();
+    expect(errorSpy.mock.calls).toEqual([
+      ['[elysia-background] Task failed:', error],
+    ]);
+
+    errorSpy.mockRestore();
+    infoSpy.mockRestore();
+  });
+
+  it('should not log below the configured level', async () => {
+    const { logger, entries } = createLogger();
+
+    const app = new Elysia()
+      .use(background({ logger, logLevel: 'silent' }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          throw new Error('Task error');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    expect(entries).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background, backgroundMetrics, TaskMetrics } from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Task metrics', () => {
+  it('should count task outcomes by name', async () => {
+    let attempts = 0;
+
+    const app = new Elysia()
+      .use(background({ execution: { mode: 'parallel' }, onError: () => {} }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ name: 'sendEmail' }, async () => {});
+        backgroundTasks.addTask(
+          { name: 'sync', retry: { attempts: 2, delay: 1 } },
+          async () => {
+            attempts++;
+            throw new Error('sync failed');
+          },
+        );
+        backgroundTasks.addTask(
+          { name: 'fetch', timeout: 5 },
+          async () => await sleep(50),
+        );
+        backgroundTasks.addTask({ name: 'cancelled' }, async () => {}).cancel();
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(30);
+
+    const metrics = app.decorator.background.taskMetrics.snapshot();
+    expect(attempts).toBe(2);
+    expect(metrics.enqueued).toEqual({ sendEmail: 1, sync: 1, fetch: 1 });
+    expect(metrics.started).toEqual({ sendEmail: 1, sync: 1, fetch: 1 });
+    expect(metrics.succeeded).toEqual({ sendEmail: 1 });
+    expect(metrics.failed).toEqual({ sync: 1, fetch: 1 });
+    expect(metrics.retried).toEqual({ sync: 1 });
+    expect(metrics.timedOut).toEqual({ fetch: 1 });
+    expect(metrics.duration.sendEmail?.count).toBe(1);
+    expect(metrics.queueWait.fetch?.buckets['+Inf']).toBe(1);
+  });
+
+  it('should not count the delay of delayed tasks as queue wait', async () => {
+    const app = new Elysia()
+      .use(background({ metrics: { buckets: [0.01, 1] } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(
+          { name: 'reminder', delay: 30 },
+          async () => {},
+        );
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(50);
+
+    expect(
+      app.decorator.background.taskMetrics.snapshot().queueWait.reminder,
+    ).toEqual({
+      buckets: { '0.01': 1, '1': 1, '+Inf': 1 },
+      sum: expect.any(Number),
+      count: 1,
+    });
+  });
+
+  it('should serve metrics in the Prometheus text format', async () => {
+    const tasks = background();
+    const app = new Elysia()
+      .use(tasks)
+      .use(backgroundMetrics(tasks.decorator.background))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ name: 'send "welcome"' }, async () => {});
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    const response = await app.handle(get('/metrics'));
+    expect(response.headers.get('content-type')).toStartWith('text/plain');
+    const text = await response.text();
+
+    expect(text).toContain('# TYPE background_tasks_running gauge');
+    expect(text).toContain('background_tasks_running 0');
+    expect(text).toContain('# TYPE background_tasks_enqueued_total counter');
+    expect(text).toContain(
+      'background_tasks_succeeded_total{task="send \\"welcome\\""} 1',
+    );
+    expect(text).toContain(
+      'background_task_duration_seconds_bucket{task="send \\"welcome\\"",le="+Inf"} 1',
+    );
+    expect(text).toContain(
+      'background_task_duration_seconds_count{task="send \\"welcome\\""} 1',
+    );
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const metrics = new TaskMetrics({ prefix: 'jobs', buckets: [1, 0.1] });
+    metrics.observe('duration', 'report', 0.05);
+    metrics.observe('duration', 'report', 0.5);
+    metrics.observe('duration', 'report', 3);
+
+    expect(metrics.toPrometheus()).toContain(
+      [
+        'jobs_task_duration_seconds_bucket{task="report",le="0.1"} 1',
+        'jobs_task_duration_seconds_bucket{task="report",le="1"} 2',
+        'jobs_task_duration_seconds_bucket{task="report",le="+Inf"} 3',
+        'jobs_task_duration_seconds_sum{task="report"} 3.55',
+        'jobs_task_duration_seconds_count{task="report"} 3',
+      ].join('\n'),
+    );
+
+    metrics.reset();
+    expect(metrics.snapshot().duration).toEqual({});
+  });
+});
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it, spyOn } from 'bun:test';
+import { rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Elysia } from 'elysia';
+
+import { background, getTaskContext, MemoryQueue } from '../src/index';
+import { SqliteQueue } from '../src/sqlite';
+import { get, sleep } from './utils';
+
+describe('Queue backends', () => {
+  const filename = join(tmpdir(), `elysia-background-${process.pid}.sqlite`);
+
+  afterEach(() => {
+    rmSync(filename, { force: true });
+  });
+
+  it('should persist registered tasks before the response', async () => {
+    const queue = new MemoryQueue();
+    const pendingDuringHandle: number[] = [];
+
+    const sendEmail = async (to: string) => {
+      pendingDuringHandle.push(queue.pending().length);
+      await sleep(1);
+      return to;
+    };
+
+    const app = new Elysia()
+      .use(background({ queue, tasks: { sendEmail } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(sendEmail, 'user@example.com');
+        backgroundTasks.addTask(async () => {});
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    expect(queue.pending()).toEqual([
+      expect.objectContaining({
+        name: 'sendEmail',
+        args: ['user@example.com'],
+      }),
+    ]);
+
+    await sleep(20);
+    expect(pendingDuringHandle).toEqual([1]);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('should persist registered tasks of handlers that throw', async () => {
+    const queue = new MemoryQueue();
+    const addSpy = spyOn(queue, 'add');
+    const sent: string[] = [];
+    const sendEmail = async (to: string) => {
+      sent.push(to);
+    };
+
+    const app = new Elysia()
+      .use(background({ queue, tasks: { sendEmail } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(sendEmail, 'user@example.com');
+        throw new Error('Database is down');
+      });
+
+    expect((await app.handle(get('/'))).status).toBe(500);
+    await sleep(20);
+
+    expect(addSpy).toHaveBeenCalledTimes(1);
+    expect(sent).toEqual(['user@example.com']);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('should mark failed tasks as complete', async () => {
+    const queue = new MemoryQueue();
+    const sendEmail = async () => {
+      throw new Error('smtp down');
+    };
+
+    const app = new Elysia()
+      .use(background({ queue, tasks: { sendEmail }, onError: () => {} }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(sendEmail);
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('should replay unfinished tasks from sqlite on startup', async () => {
+    const sent: string[] = [];
+    const sendEmail = async (to: string, subject: string) => {
+      sent.push(`${to}: ${subject}`);
+    };
+
+    const crashed = new SqliteQueue(filename);
+    crashed.add({
+      id: 'task-1',
+      name: 'sendEmail',
+      args: ['user@example.com', 'Welcome'],
+      createdAt: Date.now(),
+    });
+    crashed.close();
+
+    const queue = new SqliteQueue(filename);
+    const app = new Elysia().use(background({ queue, tasks: { sendEmail } }));
+
+    await app.decorator.background.replay();
+    await sleep(20);
+
+    expect(sent).toEqual(['user@example.com: Welcome']);
+    expect(queue.pending()).toEqual([]);
+    queue.close();
+  });
+
+  it('should replay tasks with the options they were added with', async () => {
+    const attempts: unknown[] = [];
+    const sendEmail = async (to: string) => {
+      const { task, attempt } = getTaskContext() ?? {};
+      attempts.push({ to, attempt, name: task?.name, task: task?.options });
+      if (attempt === 1) {
+        throw new Error('smtp down');
+      }
+    };
+    const options = {
+      name: 'welcomeEmail',
+      metadata: { userId: 1 },
+      retry: { attempts: 2, delay: 1 },
+      timeout: 1000,
+      key: 'welcome:1',
+    };
+
+    // Persisted but never run, as if the process crashed after the first attempt
+    const first = new SqliteQueue(filename);
+    const manager = new Elysia().use(
+      background({ queue: first, tasks: { sendEmail } }),
+    ).decorator.background;
+    const backgroundTasks = manager.createTasks();
+    const task = backgroundTasks.addTask(
+      { ...options, retry: { ...options.retry, shouldRetry: () => true } },
+      sendEmail,
+      'user@example.com',
+    );
+    await manager.persist(backgroundTasks);
+    first.claim('welcome:1', task.id, 60_000);
+    const [persisted] = first.pending();
+    first.close();
+
+    const queue = new SqliteQueue(filename);
+    const replayed = new Elysia().use(
+      background({ queue, tasks: { sendEmail } }),
+    );
+    attempts.length = 0;
+    await replayed.decorator.background.replay();
+    await sleep(20);
+
+    expect(persisted?.options).toEqual(options);
+    expect(attempts).toEqual([
+      expect.objectContaining({ attempt: 1, name: 'welcomeEmail' }),
+      expect.objectContaining({
+        attempt: 2,
+        task: expect.objectContaining(options),
+      }),
+    ]);
+    expect(queue.pending()).toEqual([]);
+    queue.close();
+  });
+
+  it('should keep tasks abandoned on shutdown for the next start', async () => {
+    const queue = new SqliteQueue(filename);
+    const slowReport = async (id: number) => {
+      await sleep(100);
+      return id;
+    };
+
+    const app = new Elysia()
+      .use(
+        background({
+          queue,
+          tasks: { slowReport },
+          drainTimeout: 10,
+          onAbandon: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(slowReport, 7);
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+    await app.decorator.background.shutdown();
+    await sleep(10);
+
+    expect(queue.pending()).toEqual([
+      expect.objectContaining({ name: 'slowReport', args: [7] }),
+    ]);
+    queue.close();
+  });
+
+  it('should leave unregistered tasks in the queue', async () => {
+    const queue = new MemoryQueue();
+    queue.add({ id: 'task-1', name: 'removed', args: [], createdAt: 0 });
+    const consoleSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+    const app = new Elysia().use(background({ queue }));
+    await app.decorator.background.replay();
+
+    expect(queue.pending()).toHaveLength(1);
+    expect(consoleSpy.mock.calls[0]).toEqual([
+      '[elysia-background] Cannot replay unregistered task "removed"',
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia, t } from 'elysia';
+
+import {
+  BackgroundTasks,
+  background,
+  defineTask,
+  MemoryQueue,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Task registry', () => {
+  const sent: string[] = [];
+  const sendEmail = defineTask(
+    'sendEmail',
+    t.Object({ to: t.String(), subject: t.String() }),
+    async ({ to, subject }) => {
+      sent.push(`${to}: ${subject}`);
+      return to;
+    },
+  );
+
+  it('should enqueue defined tasks by name', async () => {
+    sent.length = 0;
+    let id: string | undefined;
+
+    const app = new Elysia()
+      .use(background({ tasks: [sendEmail] }))
+      .get('/', ({ backgroundTasks }) => {
+        const handle = backgroundTasks.enqueue('sendEmail', {
+          to: 'user@example.com',
+          subject: 'Welcome',
+        });
+        id = handle.id;
+        return handle.name;
+      });
+
+    const response = await app.handle(get('/'));
+    expect(await response.text()).toBe('sendEmail');
+
+    await sleep(20);
+    expect(id).toBeString();
+    expect(sent).toEqual(['user@example.com: Welcome']);
+  });
+
+  it('should reject arguments that do not match the schema', async () => {
+    sent.length = 0;
+
+    const app = new Elysia()
+      .use(background({ tasks: [sendEmail] }))
+      .get('/', ({ backgroundTasks }) => {
+        // @ts-expect-error Testing invalid arguments
+        backgroundTasks.enqueue('sendEmail', { to: 42 });
+        return 'ok';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(422);
+
+    await sleep(20);
+    expect(sent).toEqual([]);
+  });
+
+  it('should throw for unknown task names', () => {
+    const tasks = new BackgroundTasks();
+    expect(() =>
+      // @ts-expect-error Testing unknown names
+      tasks.enqueue('missing', {}),
+    ).toThrow('No background task is registered as "missing"');
+  });
+
+  it('should persist defined tasks with their arguments', async () => {
+    const queue = new MemoryQueue();
+
+    const app = new Elysia()
+      .use(background({ queue, tasks: [sendEmail] }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.enqueue('sendEmail', {
+          to: 'user@example.com',
+          subject: 'Receipt',
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    expect(queue.pending()).toEqual([
+      expect.objectContaining({
+        name: 'sendEmail',
+        args: [{ to: 'user@example.com', subject: 'Receipt' }],
+      }),
+    ]);
+  });
+
+  it('should reject duplicate task names', () => {
+    expect(() => background({ tasks: [sendEmail, sendEmail] })).toThrow(
+      'Background task "sendEmail" is defined more than once',
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background, getTaskContext, type RequestSnapshot } from '../src/index';
+import { sleep } from './utils';
+
+describe('Request context', () => {
+  it('should pass a request snapshot to tasks', async () => {
+    let snapshot: RequestSnapshot | undefined;
+
+    const app = new Elysia()
+      .use(
+        background({
+          requestContext: {
+            headers: ['X-Tenant'],
+            store: ['version'],
+            derived: ['userId'],
+          },
+        }),
+      )
+      .state('version', '1.0.0')
+      .derive(() => ({ userId: 'user-1', logger: console }))
+      .post('/users/:id', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          snapshot = getTaskContext()?.request;
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(
+      new Request('http://localhost/users/42', {
+        method: 'POST',
+        headers: {
+          'x-request-id': 'req-123',
+          'x-tenant': 'acme',
+          authorization: 'Bearer secret',
+        },
+      }),
+    );
+    expect(response.status).toBe(200);
+
+    await sleep(50);
+    expect(snapshot).toEqual({
+      id: 'req-123',
+      method: 'POST',
+      path: '/users/42',
+      route: '/users/:id',
+      headers: { 'x-tenant': 'acme' },
+      store: { version: '1.0.0' },
+      derived: { userId: 'user-1' },
+    });
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(Object.isFrozen(snapshot?.headers)).toBe(true);
+  });
+
+  it('should generate a request id when the header is missing', async () => {
+    let snapshot: RequestSnapshot | undefined;
+
+    const app = new Elysia()
+      .use(background({ requestContext: true }))
+      .get('/', ({ backgroundTasks }) => {
+        const task = backgroundTasks.addTask(async () => {
+          snapshot = task.request;
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(new Request('http://localhost/'));
+
+    await sleep(50);
+    expect(snapshot?.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(snapshot?.headers).toEqual({});
+  });
+
+  it('should use a custom request id', async () => {
+    let snapshot: RequestSnapshot | undefined;
+
+    const app = new Elysia()
+      .use(
+        background({
+          requestContext: {
+            requestId: ({ request }) =>
+              request.headers.get('x-trace-id') ?? 'unknown',
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          snapshot = getTaskContext()?.request;
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(
+      new Request('http://localhost/', {
+        headers: { 'x-trace-id': 'trace-1' },
+      }),
+    );
+
+    await sleep(50);
+    expect(snapshot?.id).toBe('trace-1');
+  });
+
+  it('should pass the request snapshot to onError', async () => {
+    let capturedRequest: RequestSnapshot | undefined;
+
+    const app = new Elysia()
+      .use(
+        background({
+          requestContext: true,
+          onError: ({ request }) => {
+            capturedRequest = request;
+          },
+        }),
+      )
+      .get('/jobs', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          throw new Error('task failed');
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(
+      new Request('http://localhost/jobs', {
+        headers: { 'x-request-id': 'req-456' },
+      }),
+    );
+
+    await sleep(50);
+    expect(capturedRequest?.id).toBe('req-456');
+    expect(capturedRequest?.path).toBe('/jobs');
+  });
+
+  it('should not take a snapshot unless enabled', async () => {
+    let errorReported = false;
+    let capturedRequest: RequestSnapshot | undefined;
+
+    const app = new Elysia()
+      .use(
+        background({
+          onError: ({ request }) => {
+            errorReported = true;
+            capturedRequest = request;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          throw new Error('task failed');
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(new Request('http://localhost/'));
+
+    await sleep(50);
+    expect(errorReported).toBe(true);
+    expect(capturedRequest).toBeUndefined();
+  });
+});
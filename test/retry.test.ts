@@ -0,0 +1,142 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { BackgroundTask, background } from '../src/index';
+import { getRetryDelay } from '../src/retry';
+import { get, sleep } from './utils';
+
+describe('Retry policies', () => {
+  it('should retry a failing task until it succeeds', async () => {
+    let attempts = 0;
+
+    const task = new BackgroundTask(
+      { retry: { attempts: 3, delay: 1 } },
+      async () => {
+        attempts++;
+        if (attempts < 3) {
+          throw new Error('flaky');
+        }
+      },
+    );
+
+    await task.run();
+    expect(attempts).toBe(3);
+    expect(task.attempts).toBe(3);
+  });
+
+  it('should throw the last error once attempts are exhausted', async () => {
+    let attempts = 0;
+
+    const task = new BackgroundTask(
+      { retry: { attempts: 2, delay: 1 } },
+      async () => {
+        attempts++;
+        throw new Error(`attempt ${attempts} failed`);
+      },
+    );
+
+    await expect(task.run()).rejects.toThrow('attempt 2 failed');
+    expect(attempts).toBe(2);
+  });
+
+  it('should stop retrying when shouldRetry returns false', async () => {
+    const shouldRetryCalls: [unknown, number][] = [];
+
+    const task = new BackgroundTask(
+      {
+        retry: {
+          attempts: 5,
+          delay: 1,
+          shouldRetry: (error, attempt) => {
+            shouldRetryCalls.push([error, attempt]);
+            return attempt < 2;
+          },
+        },
+      },
+      async () => {
+        throw new Error('permanent');
+      },
+    );
+
+    await task.run().catch(() => {});
+    expect(task.attempts).toBe(2);
+    expect(shouldRetryCalls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('should calculate fixed and exponential delays', () => {
+    expect(getRetryDelay({ backoff: 'fixed', delay: 100 }, 3)).toBe(100);
+    expect(getRetryDelay({ delay: 100 }, 1)).toBe(100);
+    expect(getRetryDelay({ delay: 100 }, 3)).toBe(400);
+    expect(getRetryDelay({ delay: 100, maxDelay: 250 }, 3)).toBe(250);
+  });
+
+  it('should randomize delays with jitter', () => {
+    const randomSpy = spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay({ delay: 100, jitter: true }, 1)).toBe(50);
+    randomSpy.mockRestore();
+  });
+
+  it('should report each retried attempt to onRetry and only the final failure to onError', async () => {
+    const retries: { attempt: number; delay: number }[] = [];
+    const capturedErrors: unknown[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          retry: { attempts: 3, backoff: 'fixed', delay: 5 },
+          onRetry: ({ attempt, delay }) => {
+            retries.push({ attempt, delay });
+          },
+          onError: ({ error }) => {
+            capturedErrors.push(error);
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          throw new Error('smtp unavailable');
+        });
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(retries).toEqual([
+      { attempt: 1, delay: 5 },
+      { attempt: 2, delay: 5 },
+    ]);
+    expect(capturedErrors).toHaveLength(1);
+    expect((capturedErrors[0] as Error).message).toBe('smtp unavailable');
+  });
+
+  it('should let a task replace the default retry policy', async () => {
+    let attempts = 0;
+
+    const app = new Elysia()
+      .use(
+        background({
+          retry: { attempts: 5, delay: 1 },
+          onError: () => {}, // suppress error for testing
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(
+          { retry: { attempts: 2, delay: 1 } },
+          async () => {
+            attempts++;
+            throw new Error('task failed');
+          },
+        );
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(100);
+    expect(attempts).toBe(2);
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  BackgroundQueueFullError,
+  BackgroundTask,
+  background,
+  Scheduler,
+} from '../src/index';
+import {
+  FakeClock,
+  flushBackgroundTasks,
+  testBackground,
+} from '../src/testing';
+import { get, sleep } from './utils';
+
+describe('Scheduler', () => {
+  it('should limit concurrency across requests', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(20);
+      running--;
+    };
+
+    const app = new Elysia()
+      .use(background({ scheduler: { concurrency: 2 } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(task);
+        return 'task initiated';
+      });
+
+    await Promise.all(Array.from({ length: 5 }, () => app.handle(get('/'))));
+    await sleep(10);
+    expect(app.decorator.background.metrics.running).toBe(2);
+    expect(app.decorator.background.metrics.queued).toBe(3);
+
+    await sleep(100);
+    expect(maxRunning).toBe(2);
+    expect(app.decorator.background.metrics).toMatchObject({
+      running: 0,
+      queued: 0,
+    });
+  });
+
+  it('should free the slot of a task while it backs off before a retry', async () => {
+    const executed: string[] = [];
+    let attempts = 0;
+
+    const app = new Elysia().use(
+      background({
+        scheduler: { concurrency: 1 },
+        retry: { attempts: 2, backoff: 'fixed', delay: 50 },
+      }),
+    );
+    const { background: manager } = app.decorator;
+
+    const flaky = manager.addTask(async function sendEmail() {
+      attempts++;
+      executed.push(`sendEmail ${attempts}`);
+      if (attempts === 1) {
+        throw new Error('SMTP unavailable');
+      }
+    });
+    await sleep(10);
+    manager.addTask(async function resizeImage() {
+      executed.push('resizeImage');
+    });
+    await sleep(10);
+    expect(executed).toEqual(['sendEmail 1', 'resizeImage']);
+    expect(manager.metrics.running).toBe(0);
+
+    await flaky.done;
+    expect(executed).toEqual(['sendEmail 1', 'resizeImage', 'sendEmail 2']);
+  });
+
+  it('should reject tasks at addTask when the queue is full', async () => {
+    const app = new Elysia()
+      .use(background({ scheduler: { maxQueueSize: 1 } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {});
+        try {
+          backgroundTasks.addTask(async () => {});
+        } catch (error) {
+          return error instanceof BackgroundQueueFullError
+            ? 'queue full'
+            : 'unexpected error';
+        }
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(await response.text()).toBe('queue full');
+    expect(app.decorator.background.metrics.rejected).toBe(1);
+  });
+
+  it('should drop the oldest queued task when the queue is full', async () => {
+    const executed: number[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          scheduler: { maxQueueSize: 2, overflow: 'drop-oldest' },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        for (const id of [1, 2, 3]) {
+          backgroundTasks.addTask(async () => {
+            executed.push(id);
+          });
+        }
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(50);
+    expect(executed).toEqual([2, 3]);
+    expect(app.decorator.background.metrics.dropped).toBe(1);
+  });
+
+  it('should run overflowing tasks without waiting for a slot', async () => {
+    const scheduler = new Scheduler({
+      concurrency: 1,
+      maxQueueSize: 0,
+      overflow: 'run-inline',
+    });
+    const first = new BackgroundTask(async () => {});
+    const second = new BackgroundTask(async () => {});
+
+    scheduler.enqueue(first);
+    scheduler.enqueue(second);
+    const releaseFirst = await scheduler.acquire(first);
+    const releaseSecond = await scheduler.acquire(second);
+
+    expect(scheduler.metrics).toMatchObject({ running: 2, inline: 2 });
+    releaseFirst();
+    releaseSecond();
+    expect(scheduler.metrics.running).toBe(0);
+  });
+
+  it('should free the slot of a task cancelled while waiting', async () => {
+    const scheduler = new Scheduler({ concurrency: 1 });
+    const first = new BackgroundTask(async () => {});
+    const second = new BackgroundTask(async () => {});
+    const third = new BackgroundTask(async () => {});
+
+    for (const task of [first, second, third]) {
+      scheduler.enqueue(task);
+    }
+    const release = await scheduler.acquire(first);
+    const waiting = scheduler.acquire(second).catch((error) => error);
+    const next = scheduler.acquire(third);
+
+    second.cancel();
+    expect((await waiting).name).toBe('BackgroundTaskCancelledError');
+
+    release();
+    const releaseThird = await next;
+    expect(scheduler.metrics).toMatchObject({ running: 1, queued: 0 });
+    releaseThird();
+  });
+
+  it('should keep tasks waiting for a slot from starting while paused', async () => {
+    const scheduler = new Scheduler({ concurrency: 1 });
+    const first = new BackgroundTask(async () => {});
+    const second = new BackgroundTask(async () => {});
+    let started = false;
+
+    scheduler.enqueue(first);
+    scheduler.enqueue(second);
+    const release = await scheduler.acquire(first);
+    const next = scheduler.acquire(second).then((releaseSecond) => {
+      started = true;
+      return releaseSecond;
+    });
+
+    scheduler.pause();
+    release();
+    await sleep(10);
+    expect(started).toBe(false);
+    expect(scheduler.metrics).toMatchObject({ running: 0, queued: 1 });
+
+    scheduler.resume();
+    const releaseSecond = await next;
+    expect(started).toBe(true);
+    expect(scheduler.metrics).toMatchObject({ running: 1, queued: 0 });
+    releaseSecond();
+  });
+
+  it('should delay tasks over a rate limit instead of failing them', async () => {
+    const startedAt: number[] = [];
+    const start = Date.now();
+
+    const app = new Elysia()
+      .use(
+        background({
+          execution: { mode: 'parallel' },
+          scheduler: {
+            rateLimits: [{ name: 'callApi', limit: 2, interval: 100 }],
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        for (let i = 0; i < 4; i++) {
+          backgroundTasks.addTask({ name: 'callApi' }, async () => {
+            startedAt.push(Date.now() - start);
+          });
+        }
+        backgroundTasks.addTask({ name: 'other' }, async () => {});
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+    expect(startedAt).toHaveLength(2);
+    expect(app.decorator.background.metrics).toMatchObject({
+      throttled: 2,
+      rateLimited: 2,
+    });
+
+    await sleep(120);
+    expect(startedAt).toHaveLength(4);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(45);
+    expect(startedAt[3]).toBeGreaterThanOrEqual(95);
+    expect(app.decorator.background.metrics).toMatchObject({
+      throttled: 0,
+      rateLimited: 2,
+    });
+  });
+
+  it('should take a rate limit token for every retry', async () => {
+    const clock = new FakeClock(0).install();
+    const calls: number[] = [];
+
+    try {
+      const app = new Elysia()
+        .use(
+          testBackground({
+            clock,
+            retry: { attempts: 3, backoff: 'fixed', delay: 10 },
+            scheduler: {
+              rateLimits: [{ name: 'callApi', limit: 1, interval: 1000 }],
+            },
+            onError: () => {},
+          }),
+        )
+        .get('/', ({ backgroundTasks }) => {
+          backgroundTasks.addTask({ name: 'callApi' }, async () => {
+            calls.push(Date.now());
+            throw new Error('Too many requests');
+          });
+          return 'ok';
+        });
+
+      await app.handle(get('/'));
+      await flushBackgroundTasks(app);
+
+      expect(calls).toEqual([0, 1000, 2000]);
+      expect(app.decorator.background.metrics.rateLimited).toBe(2);
+    } finally {
+      clock.uninstall();
+    }
+  });
+
+  it('should keep a separate bucket per rate limit key', async () => {
+    const scheduler = new Scheduler({
+      rateLimits: [
+        {
+          key: (task) => task.metadata.tenant as string | undefined,
+          limit: 1,
+          interval: 1000,
+        },
+      ],
+    });
+    const task = (tenant?: string) =>
+      new BackgroundTask({ metadata: { tenant } }, async () => {});
+
+    const releases = await Promise.all(
+      [task('a'), task('b'), task()].map((item) => scheduler.acquire(item)),
+    );
+    const waiting = task('a');
+    const acquired = scheduler.acquire(waiting);
+    expect(scheduler.metrics).toMatchObject({ running: 3, throttled: 1 });
+
+    waiting.cancel();
+    expect((await acquired.catch((error) => error)).name).toBe(
+      'BackgroundTaskCancelledError',
+    );
+    for (const release of releases) {
+      release();
+    }
+  });
+
+  it('should reject invalid rate limits', () => {
+    expect(
+      () => new Scheduler({ rateLimits: [{ name: 'callApi', limit: 0 }] }),
+    ).toThrow('Rate limit for "callApi" needs a positive limit');
+  });
+});
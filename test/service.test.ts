@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia, t } from 'elysia';
+
+import {
+  background,
+  defineTask,
+  getTaskContext,
+  MemoryQueue,
+} from '../src/index';
+import { sleep } from './utils';
+
+describe('App-wide background service', () => {
+  it('should run tasks added outside of requests with the plugin options', async () => {
+    const queue = new MemoryQueue();
+    const failed: string[] = [];
+    const warmed: string[] = [];
+    let attempts = 0;
+    const warmCache = async (key: string) => {
+      warmed.push(key);
+    };
+
+    const app = new Elysia().use(
+      background({
+        queue,
+        tasks: { warmCache },
+        retry: { attempts: 2, delay: 1 },
+        onError: ({ task }) => {
+          failed.push(task?.name ?? 'unknown');
+        },
+      }),
+    );
+
+    const warm = app.decorator.background.addTask(warmCache, 'users');
+    const flaky = app.decorator.background.addTask(
+      { name: 'sync' },
+      async () => {
+        attempts++;
+        throw new Error('Service unavailable');
+      },
+    );
+    expect(await queue.pending()).toEqual([
+      expect.objectContaining({ id: warm.id, name: 'warmCache' }),
+    ]);
+
+    await warm.done;
+    await expect(flaky.done).rejects.toThrow('Service unavailable');
+    await sleep(10);
+
+    expect(warmed).toEqual(['users']);
+    expect(attempts).toBe(2);
+    expect(failed).toEqual(['sync']);
+    expect(await queue.pending()).toEqual([]);
+  });
+
+  it('should enqueue defined tasks by name', async () => {
+    const sendEmail = defineTask(
+      'sendEmail',
+      t.Object({ to: t.String() }),
+      async ({ to }) => to,
+    );
+
+    const app = new Elysia().use(background({ tasks: [sendEmail] }));
+
+    const handle = app.decorator.background.enqueue('sendEmail', {
+      to: 'user@example.com',
+    });
+    expect(await handle.done).toBe('user@example.com');
+    expect(() =>
+      // @ts-expect-error Testing invalid arguments
+      app.decorator.background.enqueue('sendEmail', { to: 42 }),
+    ).toThrow();
+  });
+
+  it('should run tasks added by WebSocket handlers', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background({ requestContext: true }))
+      .ws('/chat', {
+        open(ws) {
+          ws.data.backgroundTasks.addTask(() => {
+            executed.push(`open ${getTaskContext()?.request?.id}`);
+          });
+        },
+        message(ws, message) {
+          ws.data.backgroundTasks.addTask(() => {
+            executed.push(`message ${getTaskContext()?.request?.id}`);
+          });
+          ws.data.background.addTask(() => {
+            executed.push(`broadcast ${message}`);
+          });
+          ws.send('ack');
+        },
+      })
+      .listen(0);
+
+    try {
+      const socket = new WebSocket(`ws://localhost:${app.server?.port}/chat`, {
+        headers: { 'x-request-id': 'conn-1' },
+      });
+      await new Promise((resolve) => socket.addEventListener('open', resolve));
+      await sleep(10);
+      socket.send('hello');
+      await new Promise((resolve) =>
+        socket.addEventListener('message', resolve),
+      );
+      socket.close();
+      await sleep(10);
+
+      expect(executed).toEqual([
+        'open conn-1',
+        'message conn-1',
+        'broadcast hello',
+      ]);
+    } finally {
+      await app.stop();
+    }
+  });
+});
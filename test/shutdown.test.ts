@@ -0,0 +1,239 @@
+import { describe, expect, it, spyOn } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background } from '../src/index';
+import { get, sleep } from './utils';
+
+describe('Graceful shutdown', () => {
+  it('should wait for in-flight tasks to finish', async () => {
+    let taskComplete = false;
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          await sleep(100);
+          taskComplete = true;
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+    expect(app.decorator.background.inFlight).toBe(1);
+
+    await app.decorator.background.shutdown();
+    expect(taskComplete).toBe(true);
+    expect(app.decorator.background.inFlight).toBe(0);
+  });
+
+  it('should abandon tasks that exceed the drain timeout', async () => {
+    let abandoned: unknown[] = [];
+    let secondTaskStarted = false;
+
+    const slowTask = async () => {
+      await sleep(200);
+    };
+
+    const app = new Elysia()
+      .use(
+        background({
+          drainTimeout: 50,
+          onAbandon: ({ tasks }) => {
+            abandoned = tasks;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(slowTask);
+        backgroundTasks.addTask(async () => {
+          secondTaskStarted = true;
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+
+    const startTime = Date.now();
+    await app.decorator.background.shutdown();
+    expect(Date.now() - startTime).toBeLessThan(150);
+    expect(abandoned).toHaveLength(2);
+
+    await sleep(250);
+    expect(secondTaskStarted).toBe(false);
+  });
+
+  it('should not accept new tasks after shutdown begins', async () => {
+    let taskRan = false;
+    let abandoned: unknown[] = [];
+
+    const app = new Elysia()
+      .use(
+        background({
+          onAbandon: ({ tasks }) => {
+            abandoned = tasks;
+          },
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          taskRan = true;
+        });
+        return 'task initiated';
+      });
+
+    await app.decorator.background.shutdown();
+    expect(app.decorator.background.isShuttingDown).toBe(true);
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(50);
+    expect(taskRan).toBe(false);
+    expect(abandoned).toHaveLength(1);
+  });
+
+  it('should return the same promise when called more than once', () => {
+    const app = new Elysia().use(background());
+
+    const first = app.decorator.background.shutdown();
+    const second = app.decorator.background.shutdown();
+    expect(first).toBe(second);
+  });
+
+  it('should log abandoned tasks when onAbandon is not provided', async () => {
+    const consoleSpy = spyOn(console, 'error').mockImplementation(() => {});
+
+    const app = new Elysia()
+      .use(background({ drainTimeout: 10 }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          await sleep(100);
+        });
+        return 'task initiated';
+      });
+
+    await app.handle(get('/'));
+    await sleep(10);
+    await app.decorator.background.shutdown();
+
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+    expect(consoleSpy.mock.calls[0]).toEqual([
+      '[elysia-background] Abandoned 1 task(s) on shutdown',
+    ]);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should drain tasks when the app stops', async () => {
+    let taskComplete = false;
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          await sleep(50);
+          taskComplete = true;
+        });
+        return 'task initiated';
+      })
+      .listen(0);
+
+    await app.handle(get('/'));
+    await sleep(10);
+    await app.stop();
+    expect(app.decorator.background.isShuttingDown).toBe(true);
+
+    await app.decorator.background.shutdown();
+    expect(taskComplete).toBe(true);
+  });
+
+  it('should accept tasks again when the app is started after stopping', async () => {
+    const executed: string[] = [];
+    let block = true;
+    const record = async (value: string) => {
+      if (block) {
+        block = false;
+        await sleep(100);
+        return;
+      }
+      executed.push(value);
+    };
+
+    const app = new Elysia()
+      .use(
+        background({
+          tasks: { record },
+          workers: { size: 1 },
+          drainTimeout: 20,
+          onAbandon: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks, query }) => {
+        backgroundTasks.addTask(record, query.value ?? '');
+        return 'task initiated';
+      })
+      .listen(0);
+    const { background: manager } = app.decorator;
+
+    await app.handle(get('/?value=abandoned'));
+    await sleep(10);
+    await app.stop();
+    expect(manager.isShuttingDown).toBe(true);
+    await manager.shutdown();
+
+    app.listen(0);
+    await sleep(10);
+    expect(manager.isShuttingDown).toBe(false);
+    await app.handle(get('/?value=request'));
+    await sleep(10);
+    const double = manager.addTask({ worker: true }, (n: number) => n * 2, 2);
+
+    expect(await double.done).toBe(4);
+    expect(executed).toEqual(['abandoned', 'request']);
+    await app.stop();
+  });
+
+  it('should remove its signal listeners when the app stops', async () => {
+    const before = process.listenerCount('SIGUSR2');
+
+    for (let i = 0; i < 2; i++) {
+      const app = new Elysia()
+        .use(background({ signals: ['SIGUSR2'] }))
+        .listen(0);
+      await sleep(10);
+      expect(process.listenerCount('SIGUSR2')).toBe(before + 1);
+      await app.stop();
+      expect(process.listenerCount('SIGUSR2')).toBe(before);
+    }
+  });
+
+  it('should report errors while stopping on a signal', async () => {
+    const killSpy = spyOn(process, 'kill').mockImplementation(() => true);
+    const errors: unknown[] = [];
+    const failure = new Error('Server did not stop');
+
+    const app = new Elysia().use(
+      background({
+        onError: ({ error }) => {
+          errors.push(error);
+        },
+      }),
+    );
+    const removeListeners = app.decorator.background.handleSignals(
+      ['SIGUSR2'],
+      async () => {
+        throw failure;
+      },
+    );
+    process.emit('SIGUSR2', 'SIGUSR2');
+    await sleep(10);
+
+    expect(errors).toEqual([failure]);
+    expect(killSpy).toHaveBeenCalledWith(process.pid, 'SIGUSR2');
+    removeListeners();
+    killSpy.mockRestore();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { background } from '../src/index';
+import {
+  FakeClock,
+  flushBackgroundTasks,
+  getEnqueuedTasks,
+  testBackground,
+} from '../src/testing';
+import { get, request } from './utils';
+
+describe('Testing utilities', () => {
+  it('should flush tasks added by a request without sleeping', async () => {
+    const executed: string[] = [];
+
+    const app = new Elysia()
+      .use(background({ execution: { mode: 'parallel' } }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async () => {
+          await Bun.sleep(20);
+          executed.push('slow');
+        });
+        backgroundTasks.addTask(() => {
+          executed.push('sync');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await flushBackgroundTasks(app);
+
+    expect(executed).toEqual(['sync', 'slow']);
+    expect(app.decorator.background.inFlight).toBe(0);
+  });
+
+  it('should record enqueued tasks per request and run stubs', async () => {
+    const sent: string[] = [];
+    const sendEmail = async (to: string) => {
+      throw new Error(`Cannot reach ${to}`);
+    };
+    const trackSignup = async (_userId: number) => {};
+
+    const app = new Elysia()
+      .use(
+        testBackground({
+          stubs: { sendEmail: async (to: string) => sent.push(to) },
+          onError: () => {},
+        }),
+      )
+      .post('/users', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(sendEmail, 'user@example.com');
+        backgroundTasks.addTask(trackSignup, 1);
+        return 'created';
+      })
+      .get('/', () => 'ok');
+
+    await app.handle(request('POST', '/users'));
+    await app.handle(get('/'));
+    await flushBackgroundTasks(app);
+
+    const [signup, home] = getEnqueuedTasks(app);
+    expect(signup?.method).toBe('POST');
+    expect(signup?.path).toBe('/users');
+    expect(
+      signup?.tasks.map(({ name, args, status }) => ({ name, args, status })),
+    ).toEqual([
+      { name: 'sendEmail', args: ['user@example.com'], status: 'succeeded' },
+      { name: 'trackSignup', args: [1], status: 'succeeded' },
+    ]);
+    expect(home?.tasks).toEqual([]);
+    expect(sent).toEqual(['user@example.com']);
+
+    app.decorator.background.stub('trackSignup', () => {
+      throw new Error('Tracking is down');
+    });
+    app.decorator.background.reset();
+    await app.handle(request('POST', '/users'));
+    await flushBackgroundTasks(app);
+
+    expect(app.decorator.background.tasks.map((task) => task.status)).toEqual([
+      'succeeded',
+      'failed',
+    ]);
+  });
+
+  it('should run delayed and retried tasks with a fake clock', async () => {
+    const clock = new FakeClock(new Date('2025-01-01T00:00:00Z')).install();
+    const attempts: number[] = [];
+
+    try {
+      const app = new Elysia()
+        .use(
+          testBackground({
+            clock,
+            retry: { attempts: 3, delay: 1000 },
+            onError: () => {},
+          }),
+        )
+        .get('/', ({ backgroundTasks }) => {
+          backgroundTasks.addTask(
+            { name: 'reminder', delay: 3_600_000 },
+            async () => {
+              attempts.push(Date.now());
+              if (attempts.length < 3) {
+                throw new Error('Service unavailable');
+              }
+            },
+          );
+          return 'ok';
+        });
+
+      await app.handle(get('/'));
+      await flushBackgroundTasks(app);
+
+      const start = new Date('2025-01-01T01:00:00Z').getTime();
+      expect(attempts).toEqual([start, start + 1000, start + 3000]);
+      expect(getEnqueuedTasks(app)[0]?.tasks[0]?.status).toBe('succeeded');
+    } finally {
+      clock.uninstall();
+    }
+  });
+
+  it('should only fire the timers that are due when ticking', async () => {
+    const clock = new FakeClock(0).install();
+    const fired: number[] = [];
+
+    try {
+      setTimeout(() => fired.push(Date.now()), 100);
+      const cancelled = setTimeout(() => fired.push(-1), 150);
+      setTimeout(() => {
+        fired.push(Date.now());
+        setTimeout(() => fired.push(Date.now()), 50);
+      }, 200);
+      clearTimeout(cancelled);
+
+      await clock.tick(200);
+      expect(fired).toEqual([100, 200]);
+      expect(clock.now).toBe(200);
+      expect(clock.pending).toBe(1);
+
+      await clock.tick(100);
+      expect(fired).toEqual([100, 200, 250]);
+      expect(clock.now).toBe(300);
+    } finally {
+      clock.uninstall();
+    }
+  });
+
+  it('should reject apps without the testing plugin', async () => {
+    const app = new Elysia().use(background());
+
+    expect(() => getEnqueuedTasks(app)).toThrow(
+      'The app does not use testBackground()',
+    );
+    await expect(flushBackgroundTasks(new Elysia())).rejects.toThrow(
+      'The app does not use the background plugin',
+    );
+  });
+});
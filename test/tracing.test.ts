@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import {
+  background,
+  formatTraceparent,
+  getTaskContext,
+  MemoryTracer,
+  parseTraceparent,
+} from '../src/index';
+import { get, sleep } from './utils';
+
+const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('Tracing', () => {
+  it('should run tasks in a span under the request trace', async () => {
+    const tracer = new MemoryTracer();
+    let traceId: string | undefined;
+
+    const app = new Elysia()
+      .use(background({ tracer, requestContext: true }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async function sendEmail() {
+          traceId = getTaskContext()?.span?.context.traceId;
+        });
+        return 'ok';
+      });
+
+    const request = get('/');
+    request.headers.set('traceparent', traceparent);
+    request.headers.set('x-request-id', 'req-1');
+    await app.handle(request);
+    await sleep(10);
+
+    const [span] = tracer.spans;
+    expect(tracer.spans).toHaveLength(1);
+    expect(span?.name).toBe('background sendEmail');
+    expect(span?.parent).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+    });
+    expect(span?.context.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(span?.context.spanId).not.toBe('00f067aa0ba902b7');
+    expect(traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(span?.attributes).toEqual({
+      'background.task.id': expect.any(String),
+      'background.task.name': 'sendEmail',
+      'background.request.id': 'req-1',
+      'background.task.attempt': 1,
+      'background.task.outcome': 'succeeded',
+    });
+    expect(span?.status).toEqual({ code: 'ok' });
+    expect(span?.ended).toBe(true);
+  });
+
+  it('should record retries and failures on the span', async () => {
+    const tracer = new MemoryTracer();
+
+    const app = new Elysia()
+      .use(
+        background({
+          tracer,
+          retry: { attempts: 2, delay: 1 },
+          onError: () => {},
+        }),
+      )
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ name: 'sync' }, async () => {
+          throw new Error('Service unavailable');
+        });
+        return 'ok';
+      });
+
+    await app.handle(get('/'));
+    await sleep(20);
+
+    const [span] = tracer.spans;
+    expect(span?.parent).toBeUndefined();
+    expect(span?.attributes).toMatchObject({
+      'background.task.attempt': 2,
+      'background.task.outcome': 'failed',
+    });
+    expect(span?.events.map((event) => event.name)).toEqual([
+      'retry',
+      'exception',
+    ]);
+    expect(span?.events[0]?.attributes).toEqual({
+      'background.task.attempt': 1,
+      'background.task.retry_delay': 1,
+      'exception.message': 'Service unavailable',
+    });
+    expect(span?.status).toEqual({
+      code: 'error',
+      message: 'Service unavailable',
+    });
+    expect(span?.ended).toBe(true);
+  });
+
+  it('should read the parent with a custom extractor', async () => {
+    const tracer = new MemoryTracer();
+    tracer.extract = (headers) =>
+      parseTraceparent(headers.get('x-trace-parent'));
+
+    const app = new Elysia()
+      .use(background({ tracer }))
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask({ name: 'reminder', delay: 5 }, () => {});
+        backgroundTasks.addTask(async () => {}).cancel();
+        return 'ok';
+      });
+
+    const request = get('/');
+    request.headers.set('x-trace-parent', traceparent);
+    await app.handle(request);
+    await sleep(30);
+
+    expect(tracer.spans).toHaveLength(1);
+    expect(tracer.spans[0]?.name).toBe('background reminder');
+    expect(tracer.spans[0]?.parent?.spanId).toBe('00f067aa0ba902b7');
+  });
+
+  it('should parse and format traceparent headers', () => {
+    const context = parseTraceparent(traceparent);
+    expect(context && formatTraceparent(context)).toBe(traceparent);
+
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('not a traceparent')).toBeUndefined();
+    expect(
+      parseTraceparent(
+        '00-00000000000000000000000000000000-00f067aa0ba902b7-01',
+      ),
+    ).toBeUndefined();
+    expect(
+      parseTraceparent(
+        'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+
+import { Elysia } from 'elysia';
+
+import { BackgroundTasks, background, WorkerPool } from '../src/index';
+import { get, sleep } from './utils';
+
+function fibonacci(n: number): number {
+  return n < 2 ? n : fibonacci(n - 1) + fibonacci(n - 2);
+}
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool;
+
+  afterEach(() => {
+    pool.terminate();
+  });
+
+  it('should run a function in a worker', async () => {
+    pool = new WorkerPool({ size: 1 });
+
+    expect(await pool.run(fibonacci, 20)).toBe(6765);
+  });
+
+  it('should run more jobs than workers', async () => {
+    pool = new WorkerPool({ size: 2 });
+
+    const results = await Promise.all(
+      [10, 11, 12, 13, 14].map((n) => pool.run(fibonacci, n)),
+    );
+    expect(results).toEqual([55, 89, 144, 233, 377]);
+  });
+
+  it('should reject when the function throws', async () => {
+    pool = new WorkerPool({ size: 1 });
+
+    const broken = (message: string) => {
+      throw new Error(message);
+    };
+
+    await expect(pool.run(broken, 'worker failed')).rejects.toThrow(
+      'worker failed',
+    );
+  });
+
+  it('should terminate and replace the worker of an aborted run', async () => {
+    pool = new WorkerPool({ size: 1 });
+    const spin = (duration: number) => {
+      const end = Date.now() + duration;
+      while (Date.now() < end) {}
+    };
+    const running = new AbortController();
+    const queued = new AbortController();
+
+    const hung = pool.run({ signal: running.signal }, spin, 1500);
+    const dropped = pool.run({ signal: queued.signal }, fibonacci, 1);
+    queued.abort(new Error('No longer needed'));
+    await expect(dropped).rejects.toThrow('No longer needed');
+
+    await sleep(50);
+    running.abort(new Error('Took too long'));
+    await expect(hung).rejects.toThrow('Took too long');
+
+    const start = Date.now();
+    expect(await pool.run(fibonacci, 10)).toBe(55);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should reject jobs after termination', async () => {
+    pool = new WorkerPool({ size: 1 });
+    pool.terminate();
+
+    await expect(pool.run(fibonacci, 1)).rejects.toThrow(
+      'Worker pool has been terminated',
+    );
+  });
+
+  it('should run wrapped functions as background tasks', async () => {
+    pool = new WorkerPool({ size: 1 });
+    const results: number[] = [];
+
+    const app = new Elysia()
+      .use(background())
+      .get('/', ({ backgroundTasks }) => {
+        backgroundTasks.addTask(async (n: number) => {
+          results.push(await pool.wrap(fibonacci)(n));
+        }, 15);
+        return 'task initiated';
+      });
+
+    const response = await app.handle(get('/'));
+    expect(response.status).toBe(200);
+
+    await sleep(500);
+    expect(results).toEqual([610]);
+  });
+
+  it('should reject functions that cannot run in a worker', async () => {
+    pool = new WorkerPool({ size: 1 });
+    const offset = 1;
+    const math = {
+      double(n: number) {
+        return n * 2;
+      },
+    };
+
+    expect(() => pool.wrap(math.double)).toThrow(
+      'Cannot run "double" in a worker: its source is not a function expression',
+    );
+    await expect(pool.run(math.double, 1)).rejects.toThrow(
+      'Cannot run "double" in a worker',
+    );
+    await expect(pool.run((n: number) => n + offset, 1)).rejects.toThrow(
+      'functions run in a worker cannot use variables or imports from their enclosing scope',
+    );
+  });
+
+  it("should run tasks in the plugin's worker pool until the app stops", async () => {
+    const app = new Elysia()
+      .use(background({ workers: { size: 1 } }))
+      .listen(0);
+    // biome-ignore lint/style/noNonNullAssertion: Created from the plugin options
+    pool = app.decorator.background.workers!;
+
+    const task = app.decorator.background.addTask(
+      { worker: true },
+      fibonacci,
+      15,
+    );
+    expect(task.options.worker).toBe(pool);
+    expect(await task.done).toBe(610);
+
+    await app.stop();
+    await expect(pool.run(fibonacci, 1)).rejects.toThrow(
+      'Worker pool has been terminated',
+    );
+  });
+
+  it('should free the worker of a task that times out', async () => {
+    const app = new Elysia().use(
+      background({ workers: { size: 1 }, onError: () => {} }),
+    );
+    const { background: manager } = app.decorator;
+    // biome-ignore lint/style/noNonNullAssertion: Created from the plugin options
+    pool = manager.workers!;
+    const spin = (duration: number) => {
+      const end = Date.now() + duration;
+      while (Date.now() < end) {}
+    };
+
+    const hung = manager.addTask({ worker: true, timeout: 50 }, spin, 1500);
+    await expect(hung.done).rejects.toThrow('timed out');
+
+    const start = Date.now();
+    const next = manager.addTask({ worker: true }, fibonacci, 10);
+    expect(await next.done).toBe(55);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should require a worker pool for tasks added with worker: true', () => {
+    pool = new WorkerPool({ size: 1 });
+
+    expect(() =>
+      new BackgroundTasks().addTask({ worker: true }, fibonacci, 1),
+    ).toThrow('need the worker pool of the background plugin');
+    expect(() =>
+      new BackgroundTasks().addTask({ worker: pool }, fibonacci, 1),
+    ).not.toThrow();
+  });
+});